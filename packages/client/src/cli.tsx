@@ -1,45 +1,42 @@
 #!/usr/bin/env node
-import { existsSync, readFileSync } from 'node:fs';
-import { join } from 'node:path';
 import { render } from 'ink';
 import App from './cli/app.js';
 
-function parseArgs(): { port?: number } {
+// A port, a ws:// URL or a Unix socket path (absolute, relative or unix:-prefixed)
+function isValidAddress(address: string): boolean {
+	if (/^\d+$/.test(address)) {
+		const port = Number.parseInt(address, 10);
+		return port > 0 && port <= 65535;
+	}
+	return (
+		/^(wss?|ws\+unix|unix):/i.test(address) || address.startsWith('/') || address.startsWith('.')
+	);
+}
+
+function parseArgs(): { address?: string; token?: string } {
 	const args = process.argv.slice(2);
-	let port: number | undefined;
+	let address: string | undefined;
+	let token: string | undefined;
 
 	for (let i = 0; i < args.length; i++) {
-		if (args[i] === '--port' && i + 1 < args.length) {
-			const portArg = Number.parseInt(args[i + 1], 10);
-			if (!Number.isNaN(portArg) && portArg > 0 && portArg <= 65535) {
-				port = portArg;
+		if (['--port', '--url', '--socket'].includes(args[i]) && i + 1 < args.length) {
+			const addressArg = args[i + 1].trim();
+			if (isValidAddress(addressArg)) {
+				address = addressArg;
 			} else {
-				console.error(`[CLI] Invalid port: ${args[i + 1]}. Using auto-discovery.`);
+				console.error(`[CLI] Invalid address: ${args[i + 1]}. Using auto-discovery.`);
 			}
 		}
-	}
-
-	if (port === undefined) {
-		const portFilePath = join(process.cwd(), '.mcp-feedback-port');
-		if (existsSync(portFilePath)) {
-			try {
-				const portContent = readFileSync(portFilePath, 'utf8').trim();
-				const filePort = Number.parseInt(portContent, 10);
-				if (!Number.isNaN(filePort) && filePort > 0 && filePort <= 65535) {
-					port = filePort;
-					console.log(`[CLI] Using port ${port} from .mcp-feedback-port file`);
-				} else {
-					console.error(`[CLI] Invalid port in .mcp-feedback-port file: ${portContent}`);
-				}
-			} catch (error) {
-				console.error(`[CLI] Error reading .mcp-feedback-port file: ${error}`);
-			}
+		if (args[i] === '--token' && i + 1 < args.length) {
+			token = args[i + 1].trim() || undefined;
 		}
 	}
 
-	return { port };
+	// Without an address the app reads .mcp-feedback-port itself before every connection attempt,
+	// so it follows a restarted server to its new port. The same goes for --token and the token file.
+	return { address, token };
 }
 
-const { port } = parseArgs();
+const { address, token } = parseArgs();
 
-render(<App port={port} />);
+render(<App address={address} token={token} />);
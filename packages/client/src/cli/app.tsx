@@ -1,39 +1,144 @@
+import { randomUUID } from 'node:crypto';
 import { existsSync, readFileSync } from 'node:fs';
-import { join } from 'node:path';
+import { isAbsolute, resolve } from 'node:path';
 import { Box, Text, useInput } from 'ink';
 import type React from 'react';
-import { useEffect, useRef, useState } from 'react';
+import { useCallback, useEffect, useRef, useState } from 'react';
 import WebSocket from 'ws';
 
+import ChoiceMenu from './components/ChoiceMenu.js';
+import Countdown from './components/Countdown.js';
+import FormPrompt from './components/FormPrompt.js';
+import HistorySearch from './components/HistorySearch.js';
 import Markdown from './components/Markdown.js';
+import PasteViewer from './components/PasteViewer.js';
 import TextInput from './components/TextInput.js';
-import { getImageFromClipboard, isImagePasteSupported } from './utils/imagePaste.js';
+import {
+	completePath,
+	describePath,
+	detectPastedFilePath,
+	readAttachment,
+	resolveAttachmentPath,
+} from './utils/attachments.js';
+import {
+	type Draft,
+	type DraftFile,
+	type PastedContent,
+	type PastedImage,
+	describeDraft,
+	isDraftEmpty,
+	loadDrafts,
+	saveDrafts,
+} from './utils/drafts.js';
+import {
+	composeInEditor,
+	getEditorCommand,
+	isSubmitOnSaveEnabled,
+	withTerminalReleased,
+} from './utils/externalEditor.js';
+import {
+	getClipboardErrorMessage,
+	getImageFromClipboard,
+	getImagePasteUnavailableMessage,
+	isImagePasteSupported,
+} from './utils/imagePaste.js';
+import {
+	type ProcessedImage,
+	formatImageInfo,
+	getImageProcessingOptions,
+	processImage,
+} from './utils/imageProcessing.js';
+import { appendInputHistory, loadInputHistory } from './utils/inputHistory.js';
+import {
+	countLines,
+	detectLanguage,
+	formatPastedBlock,
+	normalizePastedText,
+} from './utils/pastedText.js';
+import { getProjectDirectory, getProjectFilePath } from './utils/project.js';
+import {
+	type AttachmentData,
+	CLOSE_CODE_UNSUPPORTED_VERSION,
+	type Capability,
+	type ChoiceRequest,
+	type ChoiceResult,
+	type ClientMessage,
+	type FeedbackMessage,
+	type FeedbackResult,
+	type FormRequest,
+	type FormResult,
+	PROTOCOL_VERSION,
+	type QueueMessage,
+	type ServerMessage,
+	parseServerMessage,
+	serializeMessage,
+} from './utils/protocol.js';
+import { OFFLINE_AFTER_ATTEMPTS, getReconnectDelay, watchFiles } from './utils/reconnect.js';
 
 const summary = 'No summary available';
 
+// Single-line pastes up to this length go straight into the input instead of a block
+const INLINE_PASTE_MAX_LENGTH = 200;
+
+// Drafts are written to disk once typing has paused this long
+const DRAFT_SAVE_DELAY_MS = 500;
+
+// Typing is reported to the server at most this often
+const ACTIVITY_INTERVAL_MS = 5000;
+
+// A submission the server has not confirmed within this time is resent over a new connection
+const ACK_TIMEOUT_MS = 10000;
+
+const CLIENT_INFO = { name: 'mcp-feedback-terminal', version: '1.3.6' };
+
 // 获取端口文件路径
 function getPortFilePath(): string {
-	return join(process.cwd(), '.mcp-feedback-port');
+	return getProjectFilePath('.mcp-feedback-port');
 }
 
-function discoverPort(): number {
+/**
+ * Turns a port, a ws:// or wss:// URL, or a Unix socket path into the URL handed to ws.
+ * Returns null when the address is none of these.
+ */
+function toWebSocketUrl(address: string): string | null {
+	const value = address.trim();
+	if (/^\d+$/.test(value)) {
+		const port = Number.parseInt(value, 10);
+		return port > 0 && port <= 65535 ? `ws://127.0.0.1:${port}` : null;
+	}
+	if (/^(wss?|ws\+unix):/i.test(value)) {
+		return value;
+	}
+	if (value.startsWith('unix:')) {
+		return toWebSocketUrl(value.slice('unix:'.length));
+	}
+	if (isAbsolute(value) || value.startsWith('.')) {
+		// ws expects ws+unix://<socket path>:<request path>
+		return `ws+unix://${resolve(value)}:/`;
+	}
+	return null;
+}
+
+// Shows a socket URL as the socket path it points at
+function describeWebSocketUrl(url: string): string {
+	const match = url.match(/^ws\+unix:\/\/(.*):\/$/);
+	return match ? `socket ${match[1]}` : url;
+}
+
+function discoverAddress(): string {
 	// 1. 优先检查环境变量中的 WebSocket URL
 	if (process.env.MCP_WS_URL) {
-		const match = process.env.MCP_WS_URL.match(/:(\d+)$/);
-		if (match) {
-			return Number.parseInt(match[1], 10);
-		}
+		return process.env.MCP_WS_URL;
 	}
 
-	// 2. 检查项目目录下的端口文件
+	// 2. 检查项目目录下的端口文件（端口号、完整 URL 或 Unix socket 路径）
 	const portFile = getPortFilePath();
 	try {
 		if (existsSync(portFile)) {
-			const portStr = readFileSync(portFile, 'utf8').trim();
-			const port = Number.parseInt(portStr, 10);
-			if (!Number.isNaN(port)) {
-				console.error(`[Client] Found port ${port} from ${portFile}`);
-				return port;
+			const address = readFileSync(portFile, 'utf8').trim();
+			if (toWebSocketUrl(address)) {
+				console.error(`[Client] Found address ${address} from ${portFile}`);
+				return address;
 			}
 		}
 	} catch (error) {
@@ -45,33 +150,72 @@ function discoverPort(): number {
 		const port = Number.parseInt(process.env.MCP_FEEDBACK_PORT, 10);
 		if (!Number.isNaN(port)) {
 			console.error(`[Client] Found port ${port} from environment variable`);
-			return port;
+			return port.toString();
 		}
 	}
 
 	// 4. 默认端口
-	return 9543;
+	return '9543';
 }
 
-function getPort(providedPort?: number): number {
-	if (providedPort) {
-		return providedPort;
+function getTokenFilePath(): string {
+	return getProjectFilePath('.mcp-feedback-token');
+}
+
+// The server writes a fresh token on every start, so this is read again before each connection attempt
+function discoverToken(): string | null {
+	if (process.env.MCP_FEEDBACK_TOKEN) {
+		return process.env.MCP_FEEDBACK_TOKEN.trim();
+	}
+
+	const tokenFile = getTokenFilePath();
+	try {
+		if (existsSync(tokenFile)) {
+			const token = readFileSync(tokenFile, 'utf8').trim();
+			if (token) {
+				return token;
+			}
+		}
+	} catch (error) {
+		console.error('[Client] Failed to read token file:', error);
 	}
-	return discoverPort();
+
+	return null;
 }
 
-interface PastedContent {
-	id: string;
-	content: string;
-	timestamp: number;
-	type: 'text';
+function getWebSocketUrl(providedAddress?: string): string {
+	const address = providedAddress || discoverAddress();
+	return toWebSocketUrl(address) ?? 'ws://127.0.0.1:9543';
+}
+
+interface PendingPrompt {
+	requestId: string;
+	summary: string;
+	choice: ChoiceRequest | null;
+	form: FormRequest | null;
+	deadline: number | null;
 }
 
-interface PastedImage {
+// A pasted text that turned out to be the path of a file, waiting for the user to decide
+interface PendingAttach {
+	path: string;
+	text: string;
+}
+
+// Sent, but not confirmed by the server yet
+interface PendingSubmission {
+	message: FeedbackMessage | QueueMessage;
+	// Goes back into the input if the server turns the submission down
+	draft: Draft | null;
+	// Status shown once the server confirmed it
+	confirmation: string;
+}
+
+// The draft that was in the input when a pasted block was loaded into it for editing
+interface PasteEdit {
 	id: string;
-	data: string;
-	timestamp: number;
-	name: string;
+	draft: string;
+	cursorOffset: number;
 }
 
 interface AppState {
@@ -81,6 +225,8 @@ interface AppState {
 	connectionError: boolean;
 	currentSummary: string;
 	renderedSummary: string;
+	prompts: PendingPrompt[];
+	activeRequestId: string | null;
 	pastedImages: PastedImage[];
 	hasImagePasted: boolean;
 	justPastedImage: boolean;
@@ -91,18 +237,120 @@ interface AppState {
 	showMessage: boolean;
 	message: string;
 	pastedContents: PastedContent[];
+	attachments: AttachmentData[];
+	pendingAttach: PendingAttach | null;
+	viewingPasteId: string | null;
+	editingPaste: PasteEdit | null;
+	// Bumped after every editor session so TextInput sets up the terminal again
+	editorSessions: number;
+	// Position while browsing input history with Up/Down, null when not browsing
+	historyIndex: number | null;
+	// What was in the input before browsing started, restored when going past the newest entry
+	historyDraft: string;
+	isSearchingHistory: boolean;
+	// The AI call the current draft was written for, see Draft.requestId
+	draftRequestId: string | null;
+	previousDraft: Draft | null;
+	// Start of the reply the server keeps for the agent's next call, null when none is queued
+	queuedReply: string | null;
+	unconfirmedSubmissions: number;
 	isWaitingForNewPrompt: boolean;
 	isReconnecting: boolean;
+	// The server speaks another protocol version, only its restart is waited for
+	isServerIncompatible: boolean;
+	// Failed connection attempts in a row, reset once connected
 	reconnectAttempts: number;
+	reconnectDelay: number;
 }
 
 interface AppProps {
-	port?: number;
+	// Port, ws:// URL or Unix socket path of the server
+	address?: string;
+	token?: string;
+}
+
+// Drops an answered, timed out or cancelled prompt and moves on to the next waiting one
+function withoutPrompt(state: AppState, requestId: string): AppState {
+	const prompts = state.prompts.filter(p => p.requestId !== requestId);
+	if (state.activeRequestId !== requestId) {
+		return { ...state, prompts };
+	}
+
+	const next = prompts[0];
+	return {
+		...state,
+		prompts,
+		activeRequestId: next?.requestId ?? null,
+		currentSummary: next?.summary ?? state.currentSummary,
+		draftRequestId: next?.requestId ?? state.draftRequestId,
+		isWaitingForNewPrompt: !next,
+	};
+}
+
+function getDraft(
+	state: Pick<
+		AppState,
+		| 'feedback'
+		| 'pastedContents'
+		| 'pastedImages'
+		| 'attachments'
+		| 'editingPaste'
+		| 'draftRequestId'
+	>
+): Draft {
+	return {
+		// While a pasted block is being edited, the draft itself is parked in editingPaste
+		feedback: state.editingPaste ? state.editingPaste.draft : state.feedback,
+		pastedContents: state.pastedContents,
+		pastedImages: state.pastedImages,
+		attachments: state.attachments,
+		requestId: state.draftRequestId,
+		savedAt: Date.now(),
+	};
+}
+
+function withDraft(state: AppState, draft: Draft | null): AppState {
+	return {
+		...state,
+		feedback: draft?.feedback ?? '',
+		cursorOffset: draft?.feedback.length ?? 0,
+		pastedContents: draft?.pastedContents ?? [],
+		pastedImages: draft?.pastedImages ?? [],
+		hasImagePasted: (draft?.pastedImages.length ?? 0) > 0,
+		justPastedImage: false,
+		attachments: draft?.attachments ?? [],
+		draftRequestId: draft?.requestId ?? null,
+		viewingPasteId: null,
+		editingPaste: null,
+		historyIndex: null,
+	};
 }
 
-export default function App({ port }: AppProps = {}): React.JSX.Element {
-	const actualPort = getPort(port);
-	const wsUrl = `ws://localhost:${actualPort}`;
+// Into the input when it is empty, otherwise set aside as the previous draft
+function giveBackQueuedDraft(state: AppState, queued: Draft, reason: string): AppState {
+	if (isDraftEmpty(getDraft(state))) {
+		return { ...withDraft(state, queued), status: `${reason}, it is back in the input.` };
+	}
+	return {
+		...state,
+		previousDraft: queued,
+		status: `${reason} and kept as the previous draft, /restore brings it back.`,
+	};
+}
+
+function formatFileSize(bytes: number): string {
+	if (bytes < 1024) return `${bytes} bytes`;
+	return `${Math.ceil(bytes / 1024)} KB`;
+}
+
+function describeRemaining(state: AppState, requestId: string): string {
+	const remaining = state.prompts.filter(p => p.requestId !== requestId).length;
+	return remaining > 0 ? `${remaining} more AI call(s) waiting.` : 'Waiting for next call...';
+}
+
+export default function App({ address, token }: AppProps = {}): React.JSX.Element {
+	// Discovered again before every connection attempt, see createConnection
+	const [wsUrl, setWsUrl] = useState(() => getWebSocketUrl(address));
 
 	const [state, setState] = useState<AppState>({
 		feedback: '',
@@ -111,6 +359,8 @@ export default function App({ port }: AppProps = {}): React.JSX.Element {
 		connectionError: false,
 		currentSummary: summary,
 		renderedSummary: summary,
+		prompts: [],
+		activeRequestId: null,
 		pastedImages: [],
 		hasImagePasted: false,
 		justPastedImage: false,
@@ -121,33 +371,226 @@ export default function App({ port }: AppProps = {}): React.JSX.Element {
 		showMessage: false,
 		message: '',
 		pastedContents: [],
+		attachments: [],
+		pendingAttach: null,
+		viewingPasteId: null,
+		editingPaste: null,
+		editorSessions: 0,
+		historyIndex: null,
+		historyDraft: '',
+		isSearchingHistory: false,
+		draftRequestId: null,
+		previousDraft: null,
+		queuedReply: null,
+		unconfirmedSubmissions: 0,
 		isWaitingForNewPrompt: false,
 		isReconnecting: false,
+		isServerIncompatible: false,
 		reconnectAttempts: 0,
+		reconnectDelay: 0,
 	});
 
 	const [ws, setWs] = useState<WebSocket | null>(null);
 	const reconnectTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+	// What went wrong with the connection attempt, shown once the socket reports it closed
+	const connectionErrorRef = useRef<string | null>(null);
 	const isConnectingRef = useRef<boolean>(false);
+	const handshakeDoneRef = useRef<boolean>(false);
+	const serverCapabilitiesRef = useRef<Capability[]>([]);
+	const lastActivitySentRef = useRef<number>(0);
+	// Submitted replies of this project, oldest first
+	const inputHistoryRef = useRef<string[]>([]);
+	const draftsLoadedRef = useRef<boolean>(false);
+	const pendingDraftsRef = useRef<DraftFile | null>(null);
+	const draftSaveTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+	// The draft this terminal queued, given back by /unqueue
+	const queuedDraftRef = useRef<Draft | null>(null);
+	// Keyed by submission id, kept until the server answers with "ack" or "rejected"
+	const pendingSubmissionsRef = useRef<Map<string, PendingSubmission>>(new Map());
+
+	const activePrompt = state.prompts.find(p => p.requestId === state.activeRequestId) ?? null;
+	const currentChoice = activePrompt?.choice ?? null;
+	const currentForm = activePrompt?.form ?? null;
+
+	const viewedPasteIndex = state.pastedContents.findIndex(p => p.id === state.viewingPasteId);
+	const viewedPaste = state.pastedContents[viewedPasteIndex] ?? null;
+	const editedPasteIndex = state.pastedContents.findIndex(p => p.id === state.editingPaste?.id);
 
 	useInput((input: string, key: any) => {
+		if (state.pendingAttach) {
+			const { path, text } = state.pendingAttach;
+			if (input.toLowerCase() === 'y' || key.return) {
+				setState(prev => ({ ...prev, pendingAttach: null }));
+				attachFile(path);
+			} else if (input.toLowerCase() === 'n' || key.escape) {
+				setState(prev => ({ ...prev, pendingAttach: null }));
+				addPastedText(text);
+			}
+			return;
+		}
+
+		// The paste viewer handles its own keys
+		if (state.viewingPasteId) {
+			return;
+		}
+
+		// So does history search
+		if (state.isSearchingHistory) {
+			return;
+		}
+
+		if (key.ctrl && input === 'r') {
+			if (!state.isSubmitted && !currentChoice && !currentForm && !state.editingPaste) {
+				setState(prev => ({ ...prev, isSearchingHistory: true }));
+			}
+			return;
+		}
+
+		// Opens the latest paste without touching the draft, so it can be inserted at the cursor
+		if (key.ctrl && input === 'o') {
+			if (!state.isSubmitted && !state.editingPaste && state.pastedContents.length > 0) {
+				viewPaste(state.pastedContents.length - 1);
+			}
+			return;
+		}
+
+		if (key.ctrl && input === 'g') {
+			if (!state.isSubmitted && !currentChoice && !currentForm) {
+				openEditor(isSubmitOnSaveEnabled());
+			}
+			return;
+		}
+
 		if (key.ctrl && input.toLowerCase() === 'v') {
-			if (!state.isSubmitted) {
+			if (!state.isSubmitted && !currentChoice && !currentForm) {
 				handleImagePaste();
 				return;
 			}
 		}
 
+		if (key.ctrl && input === 't') {
+			if (state.prompts.length > 1) {
+				const activeIndex = state.prompts.findIndex(p => p.requestId === state.activeRequestId);
+				switchPrompt((activeIndex + 1) % state.prompts.length);
+			}
+			return;
+		}
+
 		if (key.ctrl && input === 'c') {
 			process.exit(0);
 		}
+
+		reportActivity();
 	});
 
-	const handleImagePaste = () => {
+	// Lets the server tell the agent that the user is busy answering
+	const reportActivity = () => {
+		if (!activePrompt || !serverCapabilitiesRef.current.includes('activity')) return;
+
+		const now = Date.now();
+		if (now - lastActivitySentRef.current < ACTIVITY_INTERVAL_MS) return;
+
+		if (sendMessage({ type: 'activity', requestId: activePrompt.requestId })) {
+			lastActivitySentRef.current = now;
+		}
+	};
+
+	const sendMessage = (message: ClientMessage) => {
+		if (!ws || ws.readyState !== WebSocket.OPEN) return false;
+		ws.send(serializeMessage(message));
+		return true;
+	};
+
+	/**
+	 * Sends a reply. Servers with 'ack' confirm every submission; until they do it is kept
+	 * and resent after a reconnect. Returns the status to show right away.
+	 */
+	const submit = (
+		message: FeedbackMessage | QueueMessage,
+		draft: Draft | null,
+		confirmation: string
+	): string => {
+		if (!serverCapabilitiesRef.current.includes('ack')) {
+			sendMessage(message);
+			return confirmation;
+		}
+
+		const submissionId = randomUUID();
+		const submission: PendingSubmission = {
+			message: { ...message, submissionId },
+			draft,
+			confirmation,
+		};
+		pendingSubmissionsRef.current.set(submissionId, submission);
+		if (ws && sendMessage(submission.message)) {
+			watchSubmission(ws, submissionId);
+		}
+		setState(prev => ({ ...prev, unconfirmedSubmissions: pendingSubmissionsRef.current.size }));
+		return '⏳ Sent, waiting for the server to confirm...';
+	};
+
+	// A half-open connection never reports an error, dropping it makes the reconnect resend
+	const watchSubmission = (socket: WebSocket, submissionId: string) => {
+		setTimeout(() => {
+			if (pendingSubmissionsRef.current.has(submissionId) && socket.readyState === WebSocket.OPEN) {
+				socket.terminate();
+			}
+		}, ACK_TIMEOUT_MS);
+	};
+
+	const sendFeedback = (
+		requestId: string,
+		result: FeedbackResult,
+		draft: Draft | null,
+		confirmation: string
+	) => submit({ type: 'feedback', requestId, result }, draft, confirmation);
+
+	// Combines the typed text with pasted blocks (each as its own fenced block), images and files
+	const buildFeedbackResult = (draft: Draft): FeedbackResult => {
+		let combinedFeedback = draft.feedback;
+		if (draft.pastedContents.length > 0) {
+			const pastedBlocks = draft.pastedContents.map((p, index) =>
+				formatPastedBlock(p.content, index, p.language)
+			);
+			combinedFeedback = [draft.feedback, ...pastedBlocks].filter(Boolean).join('\n\n');
+		}
+
+		return {
+			interactive_feedback: combinedFeedback || '用户提交了反馈',
+			images: draft.pastedImages.map(img => ({
+				name: img.name || `image_${Date.now()}.png`,
+				data: img.data,
+			})),
+			...(draft.attachments.length > 0 && { attachments: draft.attachments }),
+		};
+	};
+
+	const switchPrompt = (index: number) => {
+		const prompt = state.prompts[index];
+		if (!prompt) {
+			setState(prev => ({
+				...prev,
+				feedback: '',
+				status: `Invalid prompt number. Available: 1-${prev.prompts.length}`,
+			}));
+			return;
+		}
+
+		setState(prev => ({
+			...prev,
+			activeRequestId: prompt.requestId,
+			currentSummary: prompt.summary,
+			draftRequestId: prompt.requestId,
+			helpContent: null,
+			status: `Switched to waiting prompt #${index + 1} of ${prev.prompts.length}`,
+		}));
+	};
+
+	const handleImagePaste = async () => {
 		if (!isImagePasteSupported()) {
 			setState(prev => ({
 				...prev,
-				status: 'Image paste feature currently only supports macOS',
+				status: getImagePasteUnavailableMessage(),
 			}));
 			return;
 		}
@@ -157,36 +600,152 @@ export default function App({ port }: AppProps = {}): React.JSX.Element {
 		if (base64Image) {
 			setState(prev => {
 				const cleanedFeedback = prev.feedback.replace(/v$/, '');
-				const newImage: PastedImage = {
-					id: Date.now().toString(),
-					data: base64Image,
-					timestamp: Date.now(),
-					name: `image_${prev.pastedImages.length + 1}.png`,
-				};
-
-				return {
-					...prev,
-					pastedImages: [...prev.pastedImages, newImage],
-					hasImagePasted: true,
-					justPastedImage: true,
-					feedback: cleanedFeedback + (cleanedFeedback ? ' ' : ''),
-					status: `Image pasted successfully! (${prev.pastedImages.length + 1} images total)`,
-				};
+				return { ...prev, feedback: cleanedFeedback + (cleanedFeedback ? ' ' : '') };
 			});
-
-			setTimeout(() => {
-				setState(prev => ({ ...prev, justPastedImage: false }));
-			}, 100);
+			await addImage(base64Image, `image_${state.pastedImages.length + 1}.png`, 'Image pasted');
 		} else {
+			setState(prev => ({
+				...prev,
+				status: getClipboardErrorMessage(),
+			}));
+		}
+	};
+
+	const addImage = async (base64Image: string, name: string, action: string) => {
+		setState(prev => ({ ...prev, status: 'Processing image...' }));
+		// Let Ink draw the status before the (synchronous) decoding starts
+		await new Promise(resolve => setTimeout(resolve, 0));
+
+		let processed: ProcessedImage;
+		try {
+			processed = await processImage(base64Image, name, getImageProcessingOptions());
+		} catch (error) {
+			setState(prev => ({
+				...prev,
+				status: `⚠️ Could not process the image: ${error instanceof Error ? error.message : String(error)}`,
+			}));
+			return;
+		}
+
+		setState(prev => {
+			const newImage: PastedImage = {
+				id: Date.now().toString(),
+				data: processed.data,
+				timestamp: Date.now(),
+				name: processed.name,
+				original: processed.original,
+				final: processed.final,
+			};
+
+			return {
+				...prev,
+				pastedImages: [...prev.pastedImages, newImage],
+				hasImagePasted: true,
+				justPastedImage: true,
+				status: `${action} successfully! (${prev.pastedImages.length + 1} images total)`,
+			};
+		});
+
+		setTimeout(() => {
+			setState(prev => ({ ...prev, justPastedImage: false }));
+		}, 100);
+	};
+
+	// Images join the pasted images, text files are sent to the agent as named attachments
+	const attachFile = (path: string) => {
+		let attachment: ReturnType<typeof readAttachment>;
+		try {
+			attachment = readAttachment(path);
+		} catch (error) {
+			setState(prev => ({
+				...prev,
+				status: `⚠️ Could not attach ${describePath(path)}: ${error instanceof Error ? error.message : String(error)}`,
+			}));
+			return;
+		}
+
+		if (attachment.kind === 'image') {
+			addImage(attachment.data, attachment.name, `Attached ${attachment.name}`);
+			return;
+		}
+
+		if (!serverCapabilitiesRef.current.includes('attachments')) {
 			setState(prev => ({
 				...prev,
 				status:
-					'No image data in clipboard. Please copy an image first (e.g., use Cmd+Shift+4 to screenshot to clipboard)',
+					'⚠️ This server cannot receive file attachments. Please upgrade mcp-feedback-server.',
 			}));
+			return;
+		}
+
+		const { kind: _, ...file } = attachment;
+		setState(prev => ({
+			...prev,
+			attachments: [...prev.attachments, file],
+			status: `📎 Attached ${file.name} (${file.mimeType}). It will be sent with your feedback.`,
+		}));
+	};
+
+	// Completes the path argument of /attach
+	const handleTabComplete = (value: string): string | undefined => {
+		const match = value.match(/^\/attach\s+(.*)$/);
+		if (!match) {
+			return undefined;
 		}
+
+		const partial = match[1] ?? '';
+		const completion = completePath(partial);
+		if (completion.candidates.length > 1) {
+			setState(prev => ({
+				...prev,
+				status: `Matches: ${completion.candidates.slice(0, 20).join('  ')}${completion.candidates.length > 20 ? '  …' : ''}`,
+			}));
+		}
+		return `/attach ${completion.value}`;
 	};
 
 	const handleSubmit = (value: string) => {
+		// Editing a pasted block is local, it works while disconnected too
+		if (state.editingPaste) {
+			finishPasteEdit(value === '/cancel' ? null : value);
+			return;
+		}
+
+		// Swaps the current and the previous draft, so restoring never loses anything either
+		if (value === '/restore') {
+			setState(prev => {
+				if (!prev.previousDraft) {
+					return { ...prev, feedback: '', cursorOffset: 0, status: 'There is no previous draft.' };
+				}
+
+				const current = getDraft({ ...prev, feedback: '' });
+				const restored = prev.previousDraft;
+				return {
+					...withDraft(prev, restored),
+					// The restored draft now answers whatever call is on screen
+					draftRequestId: prev.activeRequestId ?? restored.requestId,
+					previousDraft: isDraftEmpty(current) ? null : current,
+					helpContent: null,
+					status: `Restored your previous draft (${describeDraft(restored)}).${isDraftEmpty(current) ? '' : ' The draft you had is now the previous one, /restore swaps back.'}`,
+				};
+			});
+			return;
+		}
+
+		// Typed at the end of the input, the text before it is the draft the editor starts with
+		const editMatch = value.match(/(^|\s)\/edit(!?)$/);
+		if (editMatch) {
+			const draft = value.slice(0, editMatch.index).trimEnd();
+			setState(prev => ({
+				...prev,
+				feedback: draft,
+				cursorOffset: draft.length,
+				helpContent: null,
+			}));
+			openEditor(editMatch[2] === '!' || isSubmitOnSaveEnabled(), draft);
+			return;
+		}
+
 		if (state.isSubmitted || !ws || ws.readyState !== WebSocket.OPEN) return;
 
 		if (value === '/help') {
@@ -202,18 +761,31 @@ export default function App({ port }: AppProps = {}): React.JSX.Element {
   Ctrl+C     Exit application
   Opt+Enter  Insert new line (multiline input)
   Enter      Submit feedback
+  Ctrl+G     Write your feedback in $VISUAL / $EDITOR
+  Up/Down    Previous / next reply from this project's history
+  Ctrl+R     Search the reply history
 ${
 	isImagePasteSupported()
 		? '  Ctrl+V     Paste from clipboard (text or images)'
-		: '  Ctrl+V     Paste text (image paste only on macOS)'
+		: '  Ctrl+V     Paste text (image paste unavailable, see below)'
 }
 
 🗂️  COMMANDS:
   /help      Show this help message
+  /restore   Swap in the previous draft (set aside when a new AI call arrived)
+  /unqueue   Take back the reply queued for the agent's next call
+  /edit      Write your feedback in $VISUAL / $EDITOR, also after text (or Ctrl+G)
+  /edit!     Same, and submit as soon as the editor is saved and closed
   /paste     Paste image from clipboard
   /img       Alias for /paste command
+  /attach    Attach an image or text file by path (Tab completes)
+  /p1, /p2   Switch to waiting AI call #1, #2, etc. (or Ctrl+T)
   /d1, /d2   Delete text content #1, #2, etc.
+  /v1, /v2   View text content #1, #2, etc. in full (or Ctrl+O for the latest)
+  /e1, /e2   Edit text content #1, #2, etc. in the input
+  /m1, /m2   Move text content #1, #2, etc. into your message as plain text
   /i1, /i2   Delete image #1, #2, etc.
+  /a1, /a2   Delete attached file #1, #2, etc.
 
 📷 IMAGE FEATURES:
 ${
@@ -222,23 +794,24 @@ ${
   • Paste images with Ctrl+V repeatedly
   • View image list with deletion commands
   • All images submitted together with feedback`
-		: `  • Image paste currently only supports macOS
-  • Use Cmd+Shift+4 to screenshot to clipboard`
+		: `  • ${getImagePasteUnavailableMessage()}
+  • Supported: macOS, Linux with wl-paste (Wayland) or xclip (X11)`
 }
 
 📝 TEXT FEATURES:
-  • Paste text with Ctrl+V (appears in separate box)
+  • Multi-line pastes appear in a separate box, short ones go into the input
   • Multiple text pastes supported
-  • Auto-cleanup of file paths and formatting
-  • All pasted content included in submission
+  • Pasted text is kept exactly as copied (indentation, blank lines)
+  • Each paste is sent as a labelled code block, with the language detected
 
 🎯 TIPS:
   • All pasted content (text + images) is included when submitting
   • Use numbered commands (/d1, /i1) to remove specific items
   • Recent submission time is shown for tracking
   • Type feedback naturally - multiline is fully supported
+  • Submitting while no AI call is waiting queues the reply for the next call
 
-📁 Working Directory: ${process.cwd()}`;
+📁 Working Directory: ${getProjectDirectory()}`;
 			setState(prev => ({
 				...prev,
 				helpContent: helpText,
@@ -253,6 +826,24 @@ ${
 			return;
 		}
 
+		const attachMatch = value.match(/^\/attach(?:\s+(.*))?$/);
+		if (attachMatch) {
+			const argument = attachMatch[1]?.trim();
+			setState(prev => ({
+				...prev,
+				feedback: '',
+				cursorOffset: 0,
+				helpContent: null,
+				status: argument
+					? prev.status
+					: 'Usage: /attach <path> (relative to the project directory)',
+			}));
+			if (argument) {
+				attachFile(resolveAttachmentPath(argument));
+			}
+			return;
+		}
+
 		// Handle delete pasted content commands like /d1, /d2, etc.
 		const deleteMatch = value.match(/^\/d(\d+)$/);
 		if (deleteMatch?.[1]) {
@@ -277,6 +868,35 @@ ${
 			return;
 		}
 
+		// Handle view / edit / inline pasted content commands like /v1, /e2, /m3
+		const pasteActionMatch = value.match(/^\/([vem])(\d+)$/);
+		if (pasteActionMatch?.[1] && pasteActionMatch[2]) {
+			const index = Number.parseInt(pasteActionMatch[2]) - 1;
+			const paste = state.pastedContents[index];
+			setState(prev => ({ ...prev, feedback: '', cursorOffset: 0, helpContent: null }));
+			if (!paste) {
+				setState(prev => ({
+					...prev,
+					status: `Invalid paste number. Available: 1-${prev.pastedContents.length}`,
+				}));
+			} else if (pasteActionMatch[1] === 'v') {
+				viewPaste(index);
+			} else if (pasteActionMatch[1] === 'e') {
+				editPaste(paste.id, '', 0);
+			} else {
+				inlinePaste(paste.id);
+			}
+			return;
+		}
+
+		// Handle switch prompt commands like /p1, /p2, etc.
+		const promptMatch = value.match(/^\/p(\d+)$/);
+		if (promptMatch?.[1]) {
+			switchPrompt(Number.parseInt(promptMatch[1]) - 1);
+			setState(prev => ({ ...prev, feedback: '', cursorOffset: 0 }));
+			return;
+		}
+
 		// Handle delete image commands like /i1, /i2, etc.
 		const deleteImageMatch = value.match(/^\/i(\d+)$/);
 		if (deleteImageMatch?.[1]) {
@@ -302,6 +922,49 @@ ${
 			return;
 		}
 
+		// Handle delete attached file commands like /a1, /a2, etc.
+		const deleteAttachmentMatch = value.match(/^\/a(\d+)$/);
+		if (deleteAttachmentMatch?.[1]) {
+			const index = Number.parseInt(deleteAttachmentMatch[1]) - 1; // Convert to 0-based index
+			const attachment = state.attachments[index];
+			setState(prev => ({
+				...prev,
+				feedback: '',
+				...(attachment
+					? {
+							attachments: prev.attachments.filter((_, i) => i !== index),
+							status: `Deleted attached file #${index + 1} (${attachment.name})`,
+						}
+					: { status: `Invalid file number. Available: 1-${prev.attachments.length}` }),
+			}));
+			return;
+		}
+
+		if (value === '/unqueue') {
+			unqueueReply();
+			return;
+		}
+
+		submitReply(getDraft({ ...state, feedback: value }));
+	};
+
+	// Sends the draft as the reply without looking for commands in it, the text is taken as typed
+	const submitReply = (draft: Draft) => {
+		if (state.isSubmitted || !ws || ws.readyState !== WebSocket.OPEN) return;
+
+		if (!activePrompt) {
+			if (!serverCapabilitiesRef.current.includes('queue')) {
+				setState(prev => ({
+					...prev,
+					status: 'No AI call is waiting for feedback right now. Your draft is kept.',
+				}));
+				return;
+			}
+
+			queueReply(draft);
+			return;
+		}
+
 		setState(prev => ({
 			...prev,
 			isSubmitted: true,
@@ -309,24 +972,6 @@ ${
 			helpContent: null,
 		}));
 
-		// Combine input feedback with pasted contents
-		let combinedFeedback = value;
-		if (state.pastedContents.length > 0) {
-			const pastedTexts = state.pastedContents.map(p => p.content);
-			combinedFeedback = `${value}\n\n${pastedTexts.join('\n\n')}`;
-		}
-
-		const submission = {
-			interactive_feedback: combinedFeedback || '用户提交了反馈',
-			images: state.pastedImages.map(img => ({
-				name: img.name || `image_${Date.now()}.png`,
-				data: img.data,
-			})),
-		};
-
-		ws.send(JSON.stringify(submission));
-
-		// 立即显示提交成功状态
 		const now = new Date();
 		const timeStr = now.toLocaleTimeString('zh-CN', {
 			hour12: false,
@@ -335,11 +980,18 @@ ${
 			second: '2-digit',
 		});
 
+		const status = sendFeedback(
+			activePrompt.requestId,
+			buildFeedbackResult(draft),
+			draft,
+			`✅ Feedback submitted successfully at ${timeStr}! ${describeRemaining(state, activePrompt.requestId)}`
+		);
+		inputHistoryRef.current = appendInputHistory(inputHistoryRef.current, draft.feedback);
+
 		setState(prev => ({
-			...prev,
-			status: `✅ Feedback submitted successfully at ${timeStr}! Waiting for next call...`,
+			...withoutPrompt(prev, activePrompt.requestId),
+			status,
 			isSubmitted: false,
-			isWaitingForNewPrompt: true,
 			feedback: '',
 			pastedImages: [],
 			hasImagePasted: false,
@@ -347,6 +999,133 @@ ${
 			helpContent: null,
 			cursorOffset: 0,
 			pastedContents: [],
+			attachments: [],
+			historyIndex: null,
+		}));
+	};
+
+	// The server keeps the reply and hands it to the agent's next interactive_feedback call
+	const queueReply = (draft: Draft) => {
+		queuedDraftRef.current = draft;
+		const status = submit(
+			{ type: 'queue', result: buildFeedbackResult(draft) },
+			draft,
+			`📨 Reply queued${state.queuedReply ? ', replacing the one queued before' : ''}. It will answer the agent's next call, /unqueue takes it back.`
+		);
+		inputHistoryRef.current = appendInputHistory(inputHistoryRef.current, draft.feedback);
+
+		setState(prev => ({
+			...withDraft(prev, null),
+			helpContent: null,
+			status,
+		}));
+	};
+
+	const unqueueReply = () => {
+		if (!state.queuedReply) {
+			setState(prev => ({ ...prev, feedback: '', cursorOffset: 0, status: 'No reply is queued.' }));
+			return;
+		}
+
+		sendMessage({ type: 'unqueue' });
+		const queued = queuedDraftRef.current;
+		queuedDraftRef.current = null;
+
+		setState(prev => {
+			const cleared = { ...prev, feedback: '', cursorOffset: 0, helpContent: null };
+			// Queued from another terminal or before a restart, there is nothing to give back here
+			if (!queued) {
+				return { ...cleared, status: 'Queued reply withdrawn.' };
+			}
+			return giveBackQueuedDraft(cleared, queued, 'Queued reply withdrawn');
+		});
+	};
+
+	const handleHistoryUp = () => {
+		const history = inputHistoryRef.current;
+		if (history.length === 0) return;
+
+		setState(prev => {
+			const index = prev.historyIndex === null ? history.length - 1 : prev.historyIndex - 1;
+			const entry = history[index];
+			if (entry === undefined) return prev;
+
+			return {
+				...prev,
+				historyIndex: index,
+				historyDraft: prev.historyIndex === null ? prev.feedback : prev.historyDraft,
+				feedback: entry,
+				// At the start, so pressing Up again keeps going back through multi-line entries
+				cursorOffset: 0,
+			};
+		});
+	};
+
+	const handleHistoryDown = () => {
+		setState(prev => {
+			if (prev.historyIndex === null) return prev;
+
+			const index = prev.historyIndex + 1;
+			const entry = inputHistoryRef.current[index] ?? prev.historyDraft;
+			return {
+				...prev,
+				historyIndex: index < inputHistoryRef.current.length ? index : null,
+				feedback: entry,
+				cursorOffset: entry.length,
+			};
+		});
+	};
+
+	const handleHistoryReset = () => {
+		setState(prev => ({ ...prev, historyIndex: null }));
+	};
+
+	const handleChoiceSubmit = (result: ChoiceResult) => {
+		if (state.isSubmitted || !activePrompt || !currentChoice) return;
+		if (!ws || ws.readyState !== WebSocket.OPEN) return;
+
+		const { options } = currentChoice;
+		const labels = options.filter(option => result.selected.includes(option.id)).map(o => o.label);
+		if (result.other) {
+			labels.push(result.other);
+		}
+
+		const status = sendFeedback(
+			activePrompt.requestId,
+			{ interactive_feedback: labels.join(', '), choice: result },
+			null,
+			`✅ Choice submitted: ${labels.join(', ') || '(none)'}. ${describeRemaining(state, activePrompt.requestId)}`
+		);
+
+		setState(prev => ({
+			...withoutPrompt(prev, activePrompt.requestId),
+			status,
+			helpContent: null,
+		}));
+	};
+
+	const handleFormSubmit = (result: FormResult) => {
+		if (state.isSubmitted || !activePrompt || !currentForm) return;
+		if (!ws || ws.readyState !== WebSocket.OPEN) return;
+
+		const description =
+			result.action === 'accept'
+				? Object.entries(result.values ?? {})
+						.map(([name, value]) => `${name}: ${value}`)
+						.join(', ')
+				: 'Declined';
+
+		const status = sendFeedback(
+			activePrompt.requestId,
+			{ interactive_feedback: description, form: result },
+			null,
+			`${result.action === 'accept' ? '✅ Form submitted.' : '🚫 Form declined.'} ${describeRemaining(state, activePrompt.requestId)}`
+		);
+
+		setState(prev => ({
+			...withoutPrompt(prev, activePrompt.requestId),
+			status,
+			helpContent: null,
 		}));
 	};
 
@@ -375,19 +1154,44 @@ ${
 	};
 
 	const handlePaste = (text: string) => {
-		// Process pasted text: trim whitespace, normalize spaces
-		const processedText = text
-			.trim() // Remove leading/trailing whitespace
-			.split(/\r?\n/) // Split into lines
-			.map(line => line.trim()) // Trim each line
-			.filter(line => line.length > 0) // Remove empty lines
-			.map(line => line.replace(/\s+/g, ' ')) // Replace multiple spaces with single space
-			.join('\\n'); // Join with literal \n
-
-		// Add pasted content to the array
+		// Dragging a file into the terminal pastes its path
+		const filePath = detectPastedFilePath(text);
+		if (filePath) {
+			setState(prev => ({
+				...prev,
+				pendingAttach: { path: filePath, text },
+				status: `📎 Attach ${describePath(filePath)}? Press Y (or Enter) to attach, N (or Esc) to paste the path as text`,
+			}));
+			return;
+		}
+
+		addPastedText(text);
+	};
+
+	const insertAtCursor = (text: string) => {
+		setState(prev => ({
+			...prev,
+			feedback:
+				prev.feedback.slice(0, prev.cursorOffset) + text + prev.feedback.slice(prev.cursorOffset),
+			cursorOffset: prev.cursorOffset + text.length,
+		}));
+	};
+
+	const addPastedText = (text: string) => {
+		// Kept verbatim: indentation and blank lines matter in stack traces, YAML and code
+		const content = normalizePastedText(text);
+
+		// A word, a URL or a short sentence reads better as part of the message
+		if (!content.includes('\n') && content.length <= INLINE_PASTE_MAX_LENGTH) {
+			insertAtCursor(content);
+			return;
+		}
+
+		const language = detectLanguage(content);
 		const newPastedContent: PastedContent = {
 			id: Date.now().toString(),
-			content: processedText,
+			content,
+			language,
 			timestamp: Date.now(),
 			type: 'text',
 		};
@@ -395,7 +1199,7 @@ ${
 		setState(prev => ({
 			...prev,
 			pastedContents: [...prev.pastedContents, newPastedContent],
-			status: `Text pasted (${processedText.length} characters). Content will be included when you submit.`,
+			status: `Text pasted (${countLines(content)} lines${language ? `, ${language}` : ''}). Content will be included when you submit.`,
 		}));
 
 		// Clear status after a short delay
@@ -416,6 +1220,116 @@ ${
 		}));
 	};
 
+	// Hands the terminal to $VISUAL / $EDITOR and takes the saved text back as the draft
+	const openEditor = (submitOnSave: boolean, draft = state.feedback) => {
+		const result = withTerminalReleased(() => composeInEditor(draft, state.currentSummary));
+
+		if (result.status === 'failed') {
+			setState(prev => ({
+				...prev,
+				editorSessions: prev.editorSessions + 1,
+				status: `⚠️ Could not run ${getEditorCommand()}: ${result.error}. Set $VISUAL or $EDITOR to your editor.`,
+			}));
+			return;
+		}
+		if (result.status === 'unchanged') {
+			setState(prev => ({
+				...prev,
+				editorSessions: prev.editorSessions + 1,
+				status: 'Editor closed without saving, your draft is unchanged.',
+			}));
+			return;
+		}
+
+		const { text } = result;
+		// While a pasted block is being edited the text belongs to that block, it is not a reply
+		const submitNow = submitOnSave && text !== '' && !state.editingPaste;
+		setState(prev => ({
+			...prev,
+			feedback: text,
+			cursorOffset: text.length,
+			editorSessions: prev.editorSessions + 1,
+			status: submitNow ? prev.status : 'Draft updated from the editor. Press Enter to submit.',
+		}));
+		if (submitNow) {
+			// state still holds the draft from before the editor, the setState above has not applied yet
+			submitReply(getDraft({ ...state, feedback: text }));
+		}
+	};
+
+	const viewPaste = (index: number) => {
+		const paste = state.pastedContents[index];
+		if (!paste) return;
+		setState(prev => ({ ...prev, viewingPasteId: paste.id, helpContent: null }));
+	};
+
+	// Loads a pasted block into the input, the current draft comes back when the edit is done
+	const editPaste = (id: string, draft: string, cursorOffset: number) => {
+		setState(prev => {
+			const index = prev.pastedContents.findIndex(p => p.id === id);
+			const paste = prev.pastedContents[index];
+			if (!paste) return prev;
+
+			return {
+				...prev,
+				viewingPasteId: null,
+				editingPaste: { id, draft, cursorOffset },
+				feedback: paste.content,
+				cursorOffset: paste.content.length,
+				status: `Editing pasted text #${index + 1}. Enter saves it (empty removes it), /cancel discards your changes.`,
+			};
+		});
+	};
+
+	const finishPasteEdit = (value: string | null) => {
+		setState(prev => {
+			if (!prev.editingPaste) return prev;
+			const { id, draft, cursorOffset } = prev.editingPaste;
+			const content = value === null ? null : normalizePastedText(value);
+
+			return {
+				...prev,
+				editingPaste: null,
+				feedback: draft,
+				cursorOffset,
+				pastedContents:
+					content === null
+						? prev.pastedContents
+						: content.trim()
+							? prev.pastedContents.map(p =>
+									p.id === id ? { ...p, content, language: detectLanguage(content) } : p
+								)
+							: prev.pastedContents.filter(p => p.id !== id),
+				status:
+					content === null
+						? 'Edit discarded.'
+						: content.trim()
+							? 'Pasted text updated.'
+							: 'Pasted text removed.',
+			};
+		});
+	};
+
+	// Turns a pasted block into plain text at the cursor of the draft
+	const inlinePaste = (id: string) => {
+		setState(prev => {
+			const paste = prev.pastedContents.find(p => p.id === id);
+			if (!paste) return prev;
+
+			return {
+				...prev,
+				viewingPasteId: null,
+				pastedContents: prev.pastedContents.filter(p => p.id !== id),
+				feedback:
+					prev.feedback.slice(0, prev.cursorOffset) +
+					paste.content +
+					prev.feedback.slice(prev.cursorOffset),
+				cursorOffset: prev.cursorOffset + paste.content.length,
+				status: 'Pasted text moved into your message.',
+			};
+		});
+	};
+
 	const removePastedContent = (id: string) => {
 		setState(prev => ({
 			...prev,
@@ -431,6 +1345,82 @@ ${
 		}));
 	};
 
+	// Saves the drafts shortly after the last change, and right away when the process exits
+	const flushDrafts = useCallback(() => {
+		if (draftSaveTimeoutRef.current) {
+			clearTimeout(draftSaveTimeoutRef.current);
+			draftSaveTimeoutRef.current = null;
+		}
+		if (pendingDraftsRef.current) {
+			saveDrafts(pendingDraftsRef.current);
+			pendingDraftsRef.current = null;
+		}
+	}, []);
+
+	// Only the draft fields, so unrelated updates like the status line do not push the save back
+	const {
+		feedback,
+		pastedContents,
+		pastedImages,
+		attachments,
+		editingPaste,
+		draftRequestId,
+		previousDraft,
+	} = state;
+
+	// Declared before the effect loading the drafts, so the empty initial state is never saved over them
+	useEffect(() => {
+		if (!draftsLoadedRef.current) return;
+
+		pendingDraftsRef.current = {
+			current: getDraft({
+				feedback,
+				pastedContents,
+				pastedImages,
+				attachments,
+				editingPaste,
+				draftRequestId,
+			}),
+			previous: previousDraft,
+		};
+		if (draftSaveTimeoutRef.current) {
+			clearTimeout(draftSaveTimeoutRef.current);
+		}
+		draftSaveTimeoutRef.current = setTimeout(flushDrafts, DRAFT_SAVE_DELAY_MS);
+	}, [
+		feedback,
+		pastedContents,
+		pastedImages,
+		attachments,
+		editingPaste,
+		draftRequestId,
+		previousDraft,
+		flushDrafts,
+	]);
+
+	useEffect(() => {
+		inputHistoryRef.current = loadInputHistory();
+
+		const drafts = loadDrafts();
+		draftsLoadedRef.current = true;
+		if (drafts.current || drafts.previous) {
+			const { current, previous } = drafts;
+			setState(prev => ({
+				...withDraft(prev, current),
+				previousDraft: previous,
+				status: current
+					? `📝 Restored your unsent draft (${describeDraft(current)}).${previous ? ' /restore swaps in the previous one.' : ''}`
+					: '📝 A previous draft is saved, /restore brings it back.',
+			}));
+		}
+
+		process.on('exit', flushDrafts);
+		return () => {
+			process.off('exit', flushDrafts);
+			flushDrafts();
+		};
+	}, [flushDrafts]);
+
 	useEffect(() => {
 		setState(prev => ({ ...prev, renderedSummary: state.currentSummary }));
 	}, [state.currentSummary]);
@@ -451,21 +1441,52 @@ ${
 			}
 		}
 
+		// A restarted server may have picked another port, and always has a new token
+		const url = getWebSocketUrl(address);
+		setWsUrl(url);
+		connectionErrorRef.current = null;
+
 		setState(prev => ({
 			...prev,
-			status: `Connecting to ${wsUrl}...`,
+			status: `Connecting to ${describeWebSocketUrl(url)}...`,
 			isReconnecting: false,
+			isServerIncompatible: false,
 		}));
 
+		const sessionToken = token ?? discoverToken();
+		if (!sessionToken) {
+			isConnectingRef.current = false;
+			setState(prev => ({
+				...prev,
+				status: `⚠️ No session token found in ${getTokenFilePath()}. Is the MCP server running in this project?`,
+				connectionError: true,
+				isReconnecting: true,
+				reconnectAttempts: prev.reconnectAttempts + 1,
+			}));
+			return;
+		}
+
 		try {
-			const websocket = new WebSocket(wsUrl);
+			const websocket = new WebSocket(url, {
+				headers: { Authorization: `Bearer ${sessionToken}` },
+			});
 			setWs(websocket);
 
 			websocket.on('open', () => {
 				isConnectingRef.current = false;
+				handshakeDoneRef.current = false;
+
+				const hello: ClientMessage = {
+					type: 'hello',
+					protocolVersion: PROTOCOL_VERSION,
+					client: CLIENT_INFO,
+					capabilities: ['choice', 'form', 'cancel', 'queue', 'sync'],
+				};
+				websocket.send(serializeMessage(hello));
+
 				setState(prev => ({
 					...prev,
-					status: 'Connected! Please input your feedback...',
+					status: 'Connected, waiting for server handshake...',
 					connectionError: false,
 					isReconnecting: false,
 					reconnectAttempts: 0,
@@ -473,38 +1494,214 @@ ${
 			});
 
 			websocket.on('message', (data: Buffer) => {
+				let message: ServerMessage;
 				try {
-					const message = JSON.parse(data.toString()) as {
-						type: string;
-						data?: string;
-						message?: string;
-					};
+					message = parseServerMessage(data.toString());
+				} catch (error) {
+					const reason = error instanceof Error ? error.message : String(error);
+					setState(prev => ({
+						...prev,
+						status: handshakeDoneRef.current
+							? `⚠️ Invalid message from server: ${reason}`
+							: `❌ The server does not speak protocol v${PROTOCOL_VERSION} (${reason}). Please upgrade mcp-feedback-server.`,
+						connectionError: !handshakeDoneRef.current,
+					}));
+					return;
+				}
+
+				try {
+					if (message.type === 'welcome') {
+						handshakeDoneRef.current = true;
+						serverCapabilitiesRef.current = message.capabilities;
+						const { server } = message;
+
+						// Whatever was not confirmed before the connection dropped is sent again
+						const unconfirmed = message.capabilities.includes('ack')
+							? Array.from(pendingSubmissionsRef.current.entries())
+							: [];
+						for (const [submissionId, submission] of unconfirmed) {
+							websocket.send(serializeMessage(submission.message));
+							watchSubmission(websocket, submissionId);
+						}
 
-					if (message.type === 'summary') {
 						setState(prev => ({
 							...prev,
-							currentSummary: message.data || 'No summary available',
-							status: '📋 New AI call received, please provide feedback',
-							isSubmitted: false,
-							isWaitingForNewPrompt: false,
-							feedback: '',
-							pastedImages: [],
-							hasImagePasted: false,
-							justPastedImage: false,
-							helpContent: null,
-							cursorOffset: 0,
-							pastedContents: [],
+							status:
+								unconfirmed.length > 0
+									? `Connected to ${server.name} ${server.version}, resending ${unconfirmed.length} unconfirmed submission(s)...`
+									: `Connected to ${server.name} ${server.version}! Please input your feedback...`,
+						}));
+					} else if (message.type === 'sync') {
+						// Prompts answered, timed out or cancelled while this terminal was disconnected
+						const pending = new Set(message.requestIds);
+						setState(prev => {
+							const stale = prev.prompts.filter(p => !pending.has(p.requestId));
+							if (stale.length === 0) {
+								return prev;
+							}
+							return {
+								...stale.reduce((next, p) => withoutPrompt(next, p.requestId), prev),
+								status: `${stale.length} AI call(s) were settled while disconnected and have been removed, your draft is kept.`,
+							};
+						});
+					} else if (message.type === 'prompt') {
+						const prompt: PendingPrompt = {
+							requestId: message.requestId,
+							summary: message.summary || 'No summary available',
+							choice: message.choice ?? null,
+							form: message.form ?? null,
+							deadline: message.deadline,
+						};
+
+						setState(prev => {
+							if (prev.prompts.some(p => p.requestId === prompt.requestId)) {
+								return prev;
+							}
+
+							const prompts = [...prev.prompts, prompt];
+
+							// Don't take the screen away from a prompt the user is working on
+							if (prev.activeRequestId) {
+								return {
+									...prev,
+									prompts,
+									status: `📥 New AI call queued (${prompts.length} waiting). Press Ctrl+T or use /p${prompts.length} to switch`,
+								};
+							}
+
+							// A draft left over from an earlier call is set aside, not thrown away. One typed
+							// while no call was waiting, or restored for this very call, stays in the input.
+							const draft = getDraft(prev);
+							const setAside =
+								!isDraftEmpty(draft) &&
+								draft.requestId !== null &&
+								draft.requestId !== prompt.requestId;
+							const status = prompt.choice
+								? '🔘 New AI question received, please choose an option'
+								: prompt.form
+									? '📝 New AI form received, please fill it in'
+									: '📋 New AI call received, please provide feedback';
+
+							return {
+								...(setAside ? withDraft(prev, null) : prev),
+								prompts,
+								activeRequestId: prompt.requestId,
+								currentSummary: prompt.summary,
+								draftRequestId: prompt.requestId,
+								previousDraft: setAside ? draft : prev.previousDraft,
+								status: setAside
+									? `${status}. Your unsent draft was set aside, /restore brings it back.`
+									: status,
+								isSubmitted: false,
+								isWaitingForNewPrompt: false,
+								helpContent: null,
+							};
+						});
+					} else if (message.type === 'answered') {
+						const { requestId } = message;
+						setState(prev => {
+							if (!prev.prompts.some(p => p.requestId === requestId)) {
+								return prev;
+							}
+							return {
+								...withoutPrompt(prev, requestId),
+								status: `This AI call was answered from another terminal. ${describeRemaining(prev, requestId)}`,
+							};
+						});
+					} else if (message.type === 'timeout') {
+						const { requestId } = message;
+						// Keep the draft: the user may want to send it with the next call
+						setState(prev => ({
+							...withoutPrompt(prev, requestId),
+							status: `⌛ An AI call timed out before feedback was submitted. ${describeRemaining(prev, requestId)}`,
 						}));
+					} else if (message.type === 'cancelled') {
+						const { requestId } = message;
+						// The draft stays in the input, a new call from the agent sets it aside for /restore
+						setState(prev => ({
+							...withoutPrompt(prev, requestId),
+							status: `🚫 The agent cancelled this request, your draft is kept. ${describeRemaining(prev, requestId)}`,
+						}));
+					} else if (message.type === 'queued') {
+						const { preview, deliveredTo } = message;
+						// Gone without reaching the agent: the server restarted, or another terminal withdrew it.
+						// A queue submission still waiting for its ack is being resent and will queue it again.
+						const resending = Array.from(pendingSubmissionsRef.current.values()).some(
+							submission => submission.message.type === 'queue'
+						);
+						const lost =
+							preview === null && !deliveredTo && !resending ? queuedDraftRef.current : null;
+						if (preview === null && !resending) {
+							queuedDraftRef.current = null;
+						}
+						setState(prev => {
+							const next = { ...prev, queuedReply: preview };
+							if (lost) {
+								return giveBackQueuedDraft(
+									next,
+									lost,
+									'📨 The server no longer holds your queued reply'
+								);
+							}
+							if (deliveredTo) {
+								return {
+									...next,
+									status: `📨 The agent asked again and got your queued reply. ${describeRemaining(prev, deliveredTo)}`,
+								};
+							}
+							return next;
+						});
+					} else if (message.type === 'ack') {
+						const submission = pendingSubmissionsRef.current.get(message.submissionId);
+						if (submission) {
+							pendingSubmissionsRef.current.delete(message.submissionId);
+							setState(prev => ({
+								...prev,
+								unconfirmedSubmissions: pendingSubmissionsRef.current.size,
+								status: submission.confirmation,
+							}));
+						}
+					} else if (message.type === 'rejected') {
+						const submission = pendingSubmissionsRef.current.get(message.submissionId);
+						if (submission) {
+							pendingSubmissionsRef.current.delete(message.submissionId);
+							const { draft } = submission;
+							const rejection = `❌ The server did not accept your reply: ${message.message}`;
+							setState(prev => {
+								const next = {
+									...prev,
+									unconfirmedSubmissions: pendingSubmissionsRef.current.size,
+								};
+								if (!draft) {
+									return { ...next, status: rejection };
+								}
+								// Never overwrite what the user started typing since
+								if (isDraftEmpty(getDraft(next))) {
+									return {
+										...withDraft(next, draft),
+										status: `${rejection} It is back in the input.`,
+									};
+								}
+								return {
+									...next,
+									previousDraft: draft,
+									status: `${rejection} It was kept as the previous draft, /restore brings it back.`,
+								};
+							});
+						}
 					} else if (message.type === 'error') {
 						setState(prev => ({
 							...prev,
-							status: `❌ Server error: ${message.message || 'Unknown error'}`,
+							status:
+								message.code === 'invalid_image'
+									? `❌ Images rejected: ${message.message} The AI call is still waiting, attach valid images and submit again.`
+									: `❌ Server error (${message.code}): ${message.message || 'Unknown error'}`,
 						}));
 					}
 				} catch (error) {
 					setState(prev => ({
 						...prev,
-						status: `⚠️ Message parsing error: ${
+						status: `⚠️ Message handling error: ${
 							error instanceof Error ? error.message : String(error)
 						}`,
 					}));
@@ -515,39 +1712,38 @@ ${
 				isConnectingRef.current = false;
 				const reasonStr = reason.toString();
 
-				setState(prev => {
-					const newAttempts = prev.reconnectAttempts + 1;
-					const shouldReconnect = newAttempts <= 100; // 最多重连100次
-
-					return {
+				if (code === CLOSE_CODE_UNSUPPORTED_VERSION) {
+					// Timed retries cannot help until one side is upgraded, a restarted server is tried again
+					setState(prev => ({
 						...prev,
-						status: shouldReconnect
-							? `Connection closed (${code}${reasonStr ? `: ${reasonStr}` : ''}). Reconnecting in 5 seconds...`
-							: 'Connection failed after 10 attempts. Please check your connection.',
+						status: `❌ Incompatible server: ${reasonStr || 'protocol version mismatch'}. Restart after upgrading.`,
 						connectionError: true,
-						isReconnecting: shouldReconnect,
-						reconnectAttempts: newAttempts,
-					};
-				});
+						isReconnecting: false,
+						isServerIncompatible: true,
+					}));
+					return;
+				}
+
+				// Failed attempts end up here as well, right after 'error'
+				const status =
+					connectionErrorRef.current ??
+					`Connection closed (${code}${reasonStr ? `: ${reasonStr}` : ''}).`;
+				setState(prev => ({
+					...prev,
+					status,
+					connectionError: true,
+					isReconnecting: true,
+					reconnectAttempts: prev.reconnectAttempts + 1,
+				}));
 			});
 
 			websocket.on('error', (error: Error) => {
 				isConnectingRef.current = false;
 
-				setState(prev => {
-					const newAttempts = prev.reconnectAttempts + 1;
-					const shouldReconnect = newAttempts <= 10;
-
-					return {
-						...prev,
-						status: shouldReconnect
-							? `WebSocket error: ${error.message}. Reconnecting in 5 seconds...`
-							: `Connection failed after 10 attempts: ${error.message}`,
-						connectionError: true,
-						isReconnecting: shouldReconnect,
-						reconnectAttempts: newAttempts,
-					};
-				});
+				// ws reports a refused upgrade as "Unexpected server response: 401"
+				connectionErrorRef.current = /\b401\b/.test(error.message)
+					? '🔒 Server rejected the session token. If the server restarted, the new token will be picked up.'
+					: `WebSocket error: ${error.message}.`;
 			});
 		} catch (error) {
 			isConnectingRef.current = false;
@@ -555,21 +1751,13 @@ ${
 				...prev,
 				status: `Failed to create WebSocket: ${error instanceof Error ? error.message : String(error)}`,
 				connectionError: true,
-				isReconnecting: false,
+				isReconnecting: true,
+				reconnectAttempts: prev.reconnectAttempts + 1,
 			}));
 		}
 	};
 
 	useEffect(() => {
-		if (!wsUrl) {
-			setState(prev => ({
-				...prev,
-				status: 'Error: WebSocket URL not provided.',
-				connectionError: true,
-			}));
-			return;
-		}
-
 		createConnection();
 
 		return () => {
@@ -584,27 +1772,40 @@ ${
 				}
 			}
 		};
-	}, [wsUrl]);
+	}, []);
 
-	// 自动重连逻辑
+	// Never gives up: retries with exponential backoff, and right away when the server rewrites
+	// its port or token file on a restart. An incompatible server is only tried again on a restart.
 	useEffect(() => {
-		if (state.isReconnecting && state.reconnectAttempts <= 10) {
-			// 清除之前的重连定时器
+		if (!state.isReconnecting && !state.isServerIncompatible) return;
+
+		const reconnect = () => {
 			if (reconnectTimeoutRef.current) {
 				clearTimeout(reconnectTimeoutRef.current);
+				reconnectTimeoutRef.current = null;
 			}
+			createConnection();
+		};
 
-			reconnectTimeoutRef.current = setTimeout(() => {
-				createConnection();
-			}, 5000); // 5秒重连间隔
+		if (state.isReconnecting) {
+			const delay = getReconnectDelay(state.reconnectAttempts);
+			reconnectTimeoutRef.current = setTimeout(reconnect, delay);
+			setState(prev => ({ ...prev, reconnectDelay: delay }));
 		}
 
+		const stopWatching = watchFiles(
+			getProjectDirectory(),
+			['.mcp-feedback-port', '.mcp-feedback-token'],
+			reconnect
+		);
+
 		return () => {
+			stopWatching?.();
 			if (reconnectTimeoutRef.current) {
 				clearTimeout(reconnectTimeoutRef.current);
 			}
 		};
-	}, [state.isReconnecting, state.reconnectAttempts]);
+	}, [state.isReconnecting, state.isServerIncompatible, state.reconnectAttempts]);
 
 	return (
 		<Box flexDirection="column">
@@ -614,20 +1815,49 @@ ${
 				</Text>
 				<Box marginLeft={1}>
 					<Text color="gray" dimColor>
-						Server listening on port {actualPort}
+						Server: {describeWebSocketUrl(wsUrl)}
 					</Text>
 				</Box>
 			</Box>
 
 			<Box marginBottom={1}>
 				<Text bold color="yellow">
-					AI Work Summary:
+					{currentChoice || currentForm ? 'AI Question:' : 'AI Work Summary:'}
 				</Text>
+				{activePrompt?.deadline && (
+					<Box marginLeft={1}>
+						<Countdown deadline={activePrompt.deadline} />
+					</Box>
+				)}
 			</Box>
 			<Box marginBottom={1} padding={1} borderStyle="round" borderColor="gray">
 				<Markdown>{state.currentSummary}</Markdown>
 			</Box>
 
+			{state.prompts.length > 1 && (
+				<Box flexDirection="column">
+					<Box>
+						<Text bold color="cyan">
+							⏳ Waiting AI Calls ({state.prompts.length}) - Ctrl+T or /pN to switch
+						</Text>
+					</Box>
+					<Box borderStyle="round" borderColor="cyan" marginBottom={1} flexDirection="column">
+						{state.prompts.map((prompt, index) => (
+							<Box key={prompt.requestId} marginLeft={1}>
+								<Text
+									wrap="truncate-end"
+									color={prompt.requestId === state.activeRequestId ? 'cyan' : 'gray'}
+								>
+									{prompt.requestId === state.activeRequestId ? '❯' : ' '} #{index + 1}:{' '}
+									{prompt.choice ? '🔘 ' : prompt.form ? '📝 ' : ''}
+									{prompt.summary.split('\n')[0]}
+								</Text>
+							</Box>
+						))}
+					</Box>
+				</Box>
+			)}
+
 			{state.helpContent && (
 				<Box borderStyle="round" borderColor="yellow" padding={1} marginBottom={1}>
 					<Text color="yellow" bold>
@@ -666,7 +1896,34 @@ ${
 						{state.pastedImages.map((img, index) => (
 							<Box key={img.id} marginLeft={1}>
 								<Text color="gray">
-									#{index + 1}: {img.name} (use /i{index + 1} to delete)
+									#{index + 1}: {img.name}
+									{img.original && img.final
+										? img.final === img.original
+											? ` — ${formatImageInfo(img.original)}`
+											: ` — ${formatImageInfo(img.original)} → ${formatImageInfo(img.final)}`
+										: ''}{' '}
+									(use /i{index + 1} to delete)
+								</Text>
+							</Box>
+						))}
+					</Box>
+				</Box>
+			)}
+
+			{state.attachments.length > 0 && (
+				<Box flexDirection="column">
+					<Box>
+						<Text color="green" bold>
+							📎 Files Attached ({state.attachments.length})
+						</Text>
+					</Box>
+					<Box borderStyle="round" borderColor="green" marginBottom={1} flexDirection="column">
+						{state.attachments.map((file, index) => (
+							<Box key={`${index}-${file.name}`} marginLeft={1}>
+								<Text color="gray">
+									#{index + 1}: {file.name} — {file.mimeType},{' '}
+									{formatFileSize(Buffer.byteLength(file.content, 'utf8'))} (use /a{index + 1} to
+									delete)
 								</Text>
 							</Box>
 						))}
@@ -674,11 +1931,40 @@ ${
 				</Box>
 			)}
 
-			{state.pastedContents.length > 0 && (
+			{state.queuedReply && (
+				<Box flexDirection="column">
+					<Box>
+						<Text color="blue" bold>
+							📨 Reply Queued for the Next AI Call
+						</Text>
+					</Box>
+					<Box borderStyle="round" borderColor="blue" marginBottom={1}>
+						<Box marginLeft={1}>
+							<Text color="gray">{state.queuedReply} (use /unqueue to take it back)</Text>
+						</Box>
+					</Box>
+				</Box>
+			)}
+
+			{viewedPaste && (
+				<PasteViewer
+					key={viewedPaste.id}
+					title={`📋 Pasted text #${viewedPasteIndex + 1} (${viewedPaste.language ?? 'text'}, ${countLines(viewedPaste.content)} lines)`}
+					content={viewedPaste.content}
+					columns={process.stdout.columns || 80}
+					height={Math.max(5, (process.stdout.rows || 24) - 12)}
+					onClose={() => setState(prev => ({ ...prev, viewingPasteId: null }))}
+					onEdit={() => editPaste(viewedPaste.id, state.feedback, state.cursorOffset)}
+					onInline={() => inlinePaste(viewedPaste.id)}
+				/>
+			)}
+
+			{state.pastedContents.length > 0 && !viewedPaste && (
 				<Box flexDirection="column">
 					<Box>
 						<Text bold color="magenta">
-							📋 Pasted Contents ({state.pastedContents.length}):
+							📋 Pasted Contents ({state.pastedContents.length}): /vN view · /eN edit · /mN into
+							message · /dN delete
 						</Text>
 					</Box>
 					<Box flexDirection="column" marginBottom={1} borderStyle="round" borderColor="gray">
@@ -686,7 +1972,8 @@ ${
 							{state.pastedContents.map((paste, index) => (
 								<Box key={paste.id}>
 									<Text wrap="truncate-end">
-										{index + 1}. {paste.content}
+										{index + 1}. [{paste.language ?? 'text'}, {countLines(paste.content)} lines]{' '}
+										{paste.content.trim().split('\n')[0]}
 									</Text>
 								</Box>
 							))}
@@ -697,12 +1984,47 @@ ${
 
 			<Box marginBottom={1}>
 				<Text bold color="green">
-					Your Feedback:
+					{currentChoice
+						? 'Your Choice:'
+						: currentForm
+							? 'Your Answers:'
+							: state.editingPaste
+								? `Editing Pasted Text #${editedPasteIndex + 1} (Enter to save, /cancel to discard):`
+								: 'Your Feedback:'}
 				</Text>
 			</Box>
 			<Box marginBottom={1} borderStyle="round" borderColor="gray" padding={1}>
-				{!state.isSubmitted ? (
+				{currentChoice && activePrompt ? (
+					<ChoiceMenu
+						key={activePrompt.requestId}
+						choice={currentChoice}
+						onSubmit={handleChoiceSubmit}
+						columns={process.stdout.columns || 80}
+					/>
+				) : currentForm && activePrompt ? (
+					<FormPrompt
+						key={activePrompt.requestId}
+						form={currentForm}
+						onSubmit={handleFormSubmit}
+						columns={process.stdout.columns || 80}
+					/>
+				) : state.isSearchingHistory ? (
+					<HistorySearch
+						history={inputHistoryRef.current}
+						onAccept={entry =>
+							setState(prev => ({
+								...prev,
+								isSearchingHistory: false,
+								historyIndex: null,
+								feedback: entry,
+								cursorOffset: entry.length,
+							}))
+						}
+						onCancel={() => setState(prev => ({ ...prev, isSearchingHistory: false }))}
+					/>
+				) : !state.isSubmitted ? (
 					<TextInput
+						key={state.editorSessions}
 						value={state.feedback}
 						onChange={handleInputChange}
 						onSubmit={handleSubmit}
@@ -714,13 +2036,20 @@ ${
 						columns={process.stdout.columns || 80}
 						placeholder={
 							state.isWaitingForNewPrompt
-								? 'Waiting for next AI call...'
+								? serverCapabilitiesRef.current.includes('queue')
+									? 'Waiting for next AI call... Enter queues a reply for it'
+									: 'Waiting for next AI call...'
 								: 'Enter feedback... (Ctrl+V for image, Opt+Enter for new line, /help for commands)'
 						}
 						multiline={true}
 						showCursor={true}
+						focus={!state.pendingAttach && !viewedPaste}
 						onPaste={handlePaste}
+						onTabComplete={handleTabComplete}
 						onImagePaste={handleImagePasteFromTextInput}
+						onHistoryUp={handleHistoryUp}
+						onHistoryDown={handleHistoryDown}
+						onHistoryReset={handleHistoryReset}
 					/>
 				) : (
 					<Text italic color="gray">
@@ -729,7 +2058,25 @@ ${
 				)}
 			</Box>
 
+			{state.connectionError && state.unconfirmedSubmissions > 0 && (
+				<Text color="yellow">
+					⏳ {state.unconfirmedSubmissions} submission(s) not confirmed yet, they are resent once
+					reconnected
+				</Text>
+			)}
 			<Text color={state.connectionError ? 'red' : 'green'}>{state.status}</Text>
+			{state.isReconnecting && (
+				<Text color="yellow">
+					{state.reconnectAttempts >= OFFLINE_AFTER_ATTEMPTS
+						? '🔌 Server offline, watching for a restart.'
+						: '🔄 Reconnecting.'}{' '}
+					Next attempt in {Math.ceil(state.reconnectDelay / 1000)}s (attempt{' '}
+					{state.reconnectAttempts + 1})
+				</Text>
+			)}
+			{state.isServerIncompatible && (
+				<Text color="yellow">🔌 Watching for the server to restart.</Text>
+			)}
 		</Box>
 	);
 }
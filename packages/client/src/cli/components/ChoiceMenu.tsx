@@ -0,0 +1,177 @@
+import chalk from 'chalk';
+import { Box, Text, useInput } from 'ink';
+import React from 'react';
+import type { ChoiceRequest, ChoiceResult } from '../utils/protocol.js';
+import { getTheme } from '../utils/theme.js';
+import TextInput from './TextInput.js';
+
+export type Props = {
+	readonly choice: ChoiceRequest;
+
+	/**
+	 * Function to call when the user confirms their selection.
+	 */
+	readonly onSubmit: (result: ChoiceResult) => void;
+
+	/**
+	 * Listen to user's input. Disable while another component owns the keyboard.
+	 */
+	readonly focus?: boolean;
+
+	/**
+	 * Number of columns to wrap the "Other" input at
+	 */
+	readonly columns: number;
+};
+
+export default function ChoiceMenu({ choice, onSubmit, focus = true, columns }: Props) {
+	const { options, multiSelect = false, allowOther = false } = choice;
+	// The "Other" entry lives right after the real options
+	const entryCount = options.length + (allowOther ? 1 : 0);
+	const otherIndex = allowOther ? options.length : -1;
+
+	const [highlighted, setHighlighted] = React.useState(0);
+	const [selected, setSelected] = React.useState<Set<string>>(new Set());
+	const [isEditingOther, setIsEditingOther] = React.useState(false);
+	const [otherText, setOtherText] = React.useState('');
+	const [otherCursorOffset, setOtherCursorOffset] = React.useState(0);
+
+	const submit = (ids: Set<string>, other?: string) => {
+		const result: ChoiceResult = {
+			// Keep the order the agent gave the options in
+			selected: options.filter(option => ids.has(option.id)).map(option => option.id),
+		};
+		if (other?.trim()) {
+			result.other = other.trim();
+		}
+		onSubmit(result);
+	};
+
+	const toggle = (id: string) => {
+		setSelected(prev => {
+			const next = new Set(prev);
+			if (next.has(id)) {
+				next.delete(id);
+			} else {
+				next.add(id);
+			}
+			return next;
+		});
+	};
+
+	const activate = (index: number) => {
+		if (index === otherIndex) {
+			setIsEditingOther(true);
+			return;
+		}
+
+		const option = options[index];
+		if (!option) return;
+
+		if (multiSelect) {
+			toggle(option.id);
+		} else {
+			submit(new Set([option.id]));
+		}
+	};
+
+	useInput(
+		(input, key) => {
+			if (key.upArrow) {
+				setHighlighted(prev => (prev - 1 + entryCount) % entryCount);
+				return;
+			}
+			if (key.downArrow || key.tab) {
+				setHighlighted(prev => (prev + 1) % entryCount);
+				return;
+			}
+
+			if (/^[1-9]$/.test(input)) {
+				const index = Number.parseInt(input, 10) - 1;
+				if (index < entryCount) {
+					setHighlighted(index);
+					activate(index);
+				}
+				return;
+			}
+
+			if (input === ' ' && multiSelect) {
+				activate(highlighted);
+				return;
+			}
+
+			if (key.return) {
+				if (!multiSelect || highlighted === otherIndex) {
+					activate(highlighted);
+					return;
+				}
+				submit(selected.size > 0 ? selected : new Set([options[highlighted]?.id ?? '']));
+			}
+		},
+		{ isActive: focus && !isEditingOther }
+	);
+
+	useInput(
+		(_input, key) => {
+			if (key.escape) {
+				setIsEditingOther(false);
+			}
+		},
+		{ isActive: focus && isEditingOther }
+	);
+
+	const theme = getTheme();
+
+	return (
+		<Box flexDirection="column">
+			{options.map((option, index) => {
+				const isHighlighted = index === highlighted;
+				const marker = multiSelect ? (selected.has(option.id) ? '[x]' : '[ ]') : '';
+				const label = `${isHighlighted ? '❯' : ' '} ${index + 1}. ${marker ? `${marker} ` : ''}${option.label}`;
+
+				return (
+					<Box key={option.id} flexDirection="column">
+						<Text>{isHighlighted ? chalk.hex(theme.info).bold(label) : label}</Text>
+						{option.description && (
+							<Box marginLeft={5}>
+								<Text color="gray">{option.description}</Text>
+							</Box>
+						)}
+					</Box>
+				);
+			})}
+
+			{allowOther && (
+				<Text>
+					{highlighted === otherIndex
+						? chalk.hex(theme.info).bold(`❯ ${otherIndex + 1}. Other…`)
+						: `  ${otherIndex + 1}. Other…`}
+				</Text>
+			)}
+
+			{isEditingOther && (
+				<Box marginTop={1} marginLeft={2}>
+					<TextInput
+						value={otherText}
+						onChange={setOtherText}
+						onSubmit={value => submit(selected, value)}
+						cursorOffset={otherCursorOffset}
+						onChangeCursorOffset={setOtherCursorOffset}
+						columns={columns}
+						placeholder="Type your answer... (Enter to submit, Esc to go back)"
+						focus={focus}
+						showCursor={true}
+					/>
+				</Box>
+			)}
+
+			<Box marginTop={1}>
+				<Text color="gray" dimColor>
+					{multiSelect
+						? '↑/↓ to move, Space or 1-9 to toggle, Enter to submit'
+						: '↑/↓ to move, 1-9 or Enter to choose'}
+				</Text>
+			</Box>
+		</Box>
+	);
+}
@@ -0,0 +1,63 @@
+import { Text } from 'ink';
+import React from 'react';
+import { getTheme } from '../utils/theme.js';
+
+export type Props = {
+	/**
+	 * Epoch milliseconds at which the server stops waiting for an answer
+	 */
+	readonly deadline: number;
+
+	/**
+	 * Ring the terminal bell when the remaining time crosses these thresholds (in seconds)
+	 */
+	readonly bellAt?: number[];
+};
+
+const DEFAULT_BELL_THRESHOLDS = [60, 10];
+
+function formatRemaining(seconds: number): string {
+	const minutes = Math.floor(seconds / 60);
+	const rest = seconds % 60;
+	return `${minutes}:${rest.toString().padStart(2, '0')}`;
+}
+
+function getRemaining(deadline: number): number {
+	return Math.max(0, Math.ceil((deadline - Date.now()) / 1000));
+}
+
+export default function Countdown({ deadline, bellAt = DEFAULT_BELL_THRESHOLDS }: Props) {
+	const [remaining, setRemaining] = React.useState(() => getRemaining(deadline));
+	const rungRef = React.useRef<Set<number>>(new Set());
+
+	React.useEffect(() => {
+		rungRef.current = new Set();
+		setRemaining(getRemaining(deadline));
+
+		const interval = setInterval(() => {
+			setRemaining(getRemaining(deadline));
+		}, 1000);
+
+		return () => clearInterval(interval);
+	}, [deadline]);
+
+	React.useEffect(() => {
+		for (const threshold of bellAt) {
+			// Only ring when crossing a threshold, not when a prompt arrives already below it
+			if (remaining <= threshold && remaining > threshold - 2 && !rungRef.current.has(threshold)) {
+				rungRef.current.add(threshold);
+				process.stdout.write('\x07');
+			}
+		}
+	}, [remaining, bellAt]);
+
+	const theme = getTheme();
+	const color =
+		remaining <= 10 ? theme.error : remaining <= 60 ? theme.warning : theme.secondaryText;
+
+	return (
+		<Text color={color}>
+			{remaining > 0 ? `⏱ ${formatRemaining(remaining)} left` : '⏱ time is up'}
+		</Text>
+	);
+}
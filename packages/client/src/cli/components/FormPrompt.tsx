@@ -0,0 +1,216 @@
+import chalk from 'chalk';
+import { Box, Text, useInput } from 'ink';
+import React from 'react';
+import {
+	type RawFormValues,
+	getEnumChoices,
+	getInitialFormValues,
+	validateForm,
+} from '../utils/form.js';
+import type { FormField, FormRequest, FormResult } from '../utils/protocol.js';
+import { getTheme } from '../utils/theme.js';
+import TextInput from './TextInput.js';
+
+export type Props = {
+	readonly form: FormRequest;
+
+	/**
+	 * Function to call when the user submits valid values or declines the form.
+	 */
+	readonly onSubmit: (result: FormResult) => void;
+
+	/**
+	 * Listen to user's input. Disable while another component owns the keyboard.
+	 */
+	readonly focus?: boolean;
+
+	/**
+	 * Number of columns to wrap text inputs at
+	 */
+	readonly columns: number;
+};
+
+type Row = { kind: 'field'; field: FormField } | { kind: 'submit' } | { kind: 'decline' };
+
+function isTextField(field: FormField): boolean {
+	return field.type !== 'boolean' && !field.enum;
+}
+
+export default function FormPrompt({ form, onSubmit, focus = true, columns }: Props) {
+	const rows: Row[] = [
+		...form.fields.map(field => ({ kind: 'field' as const, field })),
+		{ kind: 'submit' },
+		{ kind: 'decline' },
+	];
+
+	const [focused, setFocused] = React.useState(0);
+	const [values, setValues] = React.useState<RawFormValues>(() =>
+		getInitialFormValues(form.fields)
+	);
+	const [errors, setErrors] = React.useState<Record<string, string>>({});
+	const [cursorOffset, setCursorOffset] = React.useState(0);
+
+	const focusRow = (index: number) => {
+		const next = (index + rows.length) % rows.length;
+		const row = rows[next];
+		const value = row?.kind === 'field' ? values[row.field.name] : '';
+		setFocused(next);
+		setCursorOffset(typeof value === 'string' ? value.length : 0);
+	};
+
+	const setValue = (name: string, value: string | boolean) => {
+		setValues(prev => ({ ...prev, [name]: value }));
+		setErrors(prev => {
+			if (!prev[name]) return prev;
+			const { [name]: _removed, ...rest } = prev;
+			return rest;
+		});
+	};
+
+	const submit = () => {
+		const result = validateForm(form.fields, values);
+		const invalidIndex = form.fields.findIndex(field => result.errors[field.name]);
+		if (invalidIndex !== -1) {
+			setErrors(result.errors);
+			focusRow(invalidIndex);
+			return;
+		}
+		onSubmit({ action: 'accept', values: result.values });
+	};
+
+	const cycleEnum = (field: FormField, step: number) => {
+		const choices = getEnumChoices(field);
+		const current = choices.indexOf(String(values[field.name] ?? ''));
+		const next = choices[(current + step + choices.length) % choices.length] ?? '';
+		setValue(field.name, next);
+	};
+
+	const focusedRow = rows[focused];
+	const isEditingText = focusedRow?.kind === 'field' && isTextField(focusedRow.field);
+
+	useInput(
+		(input, key) => {
+			if (key.tab) {
+				focusRow(focused + (key.shift ? -1 : 1));
+				return;
+			}
+
+			// Text inputs handle their own keys and move focus through the history callbacks
+			if (isEditingText || !focusedRow) return;
+
+			if (key.upArrow) {
+				focusRow(focused - 1);
+				return;
+			}
+			if (key.downArrow) {
+				focusRow(focused + 1);
+				return;
+			}
+
+			if (focusedRow.kind === 'submit') {
+				if (key.return) submit();
+				return;
+			}
+			if (focusedRow.kind === 'decline') {
+				if (key.return) onSubmit({ action: 'decline' });
+				return;
+			}
+
+			const { field } = focusedRow;
+			if (field.type === 'boolean') {
+				if (input === ' ') {
+					setValue(field.name, values[field.name] !== true);
+				} else if (key.return) {
+					focusRow(focused + 1);
+				}
+				return;
+			}
+
+			if (key.leftArrow) {
+				cycleEnum(field, -1);
+			} else if (key.rightArrow || input === ' ') {
+				cycleEnum(field, 1);
+			} else if (key.return) {
+				focusRow(focused + 1);
+			}
+		},
+		{ isActive: focus }
+	);
+
+	const theme = getTheme();
+
+	const renderField = (field: FormField, index: number) => {
+		const isFocused = index === focused;
+		const title = field.title || field.name;
+		const label = `${isFocused ? '❯' : ' '} ${title}${field.required ? ' *' : ''}: `;
+		const value = values[field.name];
+
+		let input: React.ReactNode;
+		if (field.type === 'boolean') {
+			input = <Text>{value === true ? '[x]' : '[ ]'}</Text>;
+		} else if (field.enum) {
+			const text = typeof value === 'string' && value ? value : '(none)';
+			input = <Text>{isFocused ? `◀ ${text} ▶` : text}</Text>;
+		} else if (isFocused) {
+			input = (
+				<TextInput
+					value={typeof value === 'string' ? value : ''}
+					onChange={next => setValue(field.name, next)}
+					onSubmit={() => focusRow(focused + 1)}
+					onHistoryUp={() => focusRow(focused - 1)}
+					onHistoryDown={() => focusRow(focused + 1)}
+					cursorOffset={cursorOffset}
+					onChangeCursorOffset={setCursorOffset}
+					columns={columns}
+					placeholder={field.type === 'string' ? '' : 'number'}
+					focus={focus}
+					showCursor={true}
+				/>
+			);
+		} else {
+			input = <Text>{typeof value === 'string' ? value : ''}</Text>;
+		}
+
+		return (
+			<Box key={field.name} flexDirection="column">
+				<Box>
+					<Text>{isFocused ? chalk.hex(theme.info).bold(label) : label}</Text>
+					{input}
+				</Box>
+				{field.description && (
+					<Box marginLeft={4}>
+						<Text color="gray">{field.description}</Text>
+					</Box>
+				)}
+				{errors[field.name] && (
+					<Box marginLeft={4}>
+						<Text color="red">{errors[field.name]}</Text>
+					</Box>
+				)}
+			</Box>
+		);
+	};
+
+	const renderButton = (label: string, index: number) => (
+		<Text key={label}>
+			{index === focused ? chalk.hex(theme.info).bold(`❯ [ ${label} ]`) : `  [ ${label} ]`}
+		</Text>
+	);
+
+	return (
+		<Box flexDirection="column">
+			{form.fields.map(renderField)}
+
+			<Box marginTop={1} flexDirection="column">
+				{renderButton('Submit', form.fields.length)}
+				{renderButton('Decline', form.fields.length + 1)}
+			</Box>
+
+			<Box marginTop={1}>
+				<Text color="gray" dimColor>
+					Tab/↑/↓ to move, Space to toggle, ←/→ to change a select, Enter to continue
+				</Text>
+			</Box>
+		</Box>
+	);
+}
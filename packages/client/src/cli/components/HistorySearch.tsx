@@ -0,0 +1,79 @@
+import { Box, Text, useInput } from 'ink';
+import React from 'react';
+import { searchInputHistory } from '../utils/inputHistory.js';
+
+export type Props = {
+	/**
+	 * Submitted replies, oldest first
+	 */
+	readonly history: string[];
+
+	/**
+	 * Listen to user's input. Disable while another component owns the keyboard.
+	 */
+	readonly focus?: boolean;
+
+	/**
+	 * Function to call with the selected entry when the user presses Enter
+	 */
+	readonly onAccept: (entry: string) => void;
+
+	readonly onCancel: () => void;
+};
+
+/**
+ * Reverse incremental search like Ctrl+R in a shell: typing narrows the match down,
+ * Ctrl+R again jumps to the next older match.
+ */
+export default function HistorySearch({ history, focus = true, onAccept, onCancel }: Props) {
+	const [query, setQuery] = React.useState('');
+	const [matchIndex, setMatchIndex] = React.useState(-1);
+
+	const search = (nextQuery: string, before?: number) => {
+		setQuery(nextQuery);
+		setMatchIndex(nextQuery ? searchInputHistory(history, nextQuery, before) : -1);
+	};
+
+	useInput(
+		(input, key) => {
+			if (key.escape || (key.ctrl && input === 'g')) {
+				onCancel();
+			} else if (key.return) {
+				const match = history[matchIndex];
+				if (match !== undefined) {
+					onAccept(match);
+				} else {
+					onCancel();
+				}
+			} else if (key.ctrl && input === 'r') {
+				if (query && matchIndex > 0) {
+					const older = searchInputHistory(history, query, matchIndex);
+					if (older >= 0) setMatchIndex(older);
+				}
+			} else if (key.backspace || key.delete) {
+				search(query.slice(0, -1));
+			} else if (input && !key.ctrl && !key.meta) {
+				search(query + input);
+			}
+		},
+		{ isActive: focus }
+	);
+
+	const match = history[matchIndex];
+	const failed = query !== '' && match === undefined;
+
+	return (
+		<Box flexDirection="column">
+			<Text>
+				<Text color={failed ? 'red' : 'cyan'}>
+					{failed ? '(failed reverse-i-search)' : '(reverse-i-search)'}`{query}':{' '}
+				</Text>
+				{match ?? ''}
+			</Text>
+			<Text color="gray" dimColor>
+				Type to search · Ctrl+R for older matches · Enter to use · Esc to cancel ({history.length}{' '}
+				entries)
+			</Text>
+		</Box>
+	);
+}
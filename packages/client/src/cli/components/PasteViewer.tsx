@@ -0,0 +1,122 @@
+import { Box, Text, useInput } from 'ink';
+import React from 'react';
+
+export type Props = {
+	readonly title: string;
+
+	readonly content: string;
+
+	/**
+	 * Number of columns to wrap long lines at
+	 */
+	readonly columns: number;
+
+	/**
+	 * Number of content lines shown at once
+	 */
+	readonly height: number;
+
+	/**
+	 * Listen to user's input. Disable while another component owns the keyboard.
+	 */
+	readonly focus?: boolean;
+
+	readonly onClose: () => void;
+
+	/**
+	 * Function to call when the user wants to edit the block in the input
+	 */
+	readonly onEdit: () => void;
+
+	/**
+	 * Function to call when the user wants the block inserted into the message as plain text
+	 */
+	readonly onInline: () => void;
+};
+
+// Long lines are cut into screen-wide pieces so scrolling moves by what is actually shown
+function wrapLines(content: string, width: number): string[] {
+	const lines: string[] = [];
+	for (const line of content.replace(/\n$/, '').split('\n')) {
+		const expanded = line.replace(/\t/g, '    ');
+		if (expanded.length <= width) {
+			lines.push(expanded);
+			continue;
+		}
+		for (let start = 0; start < expanded.length; start += width) {
+			lines.push(expanded.slice(start, start + width));
+		}
+	}
+	return lines;
+}
+
+export default function PasteViewer({
+	title,
+	content,
+	columns,
+	height,
+	focus = true,
+	onClose,
+	onEdit,
+	onInline,
+}: Props) {
+	// Border and padding take four columns
+	const lines = React.useMemo(
+		() => wrapLines(content, Math.max(10, columns - 4)),
+		[content, columns]
+	);
+	const pageSize = Math.max(1, height);
+	const maxScroll = Math.max(0, lines.length - pageSize);
+	const [scroll, setScroll] = React.useState(0);
+
+	const scrollBy = (delta: number) => {
+		setScroll(prev => Math.min(maxScroll, Math.max(0, prev + delta)));
+	};
+
+	useInput(
+		(input, key) => {
+			if (key.escape || input === 'q') {
+				onClose();
+			} else if (input === 'e') {
+				onEdit();
+			} else if (input === 'm') {
+				onInline();
+			} else if (key.upArrow || input === 'k') {
+				scrollBy(-1);
+			} else if (key.downArrow || input === 'j') {
+				scrollBy(1);
+			} else if (key.pageUp || input === 'b') {
+				scrollBy(-pageSize);
+			} else if (key.pageDown || input === ' ') {
+				scrollBy(pageSize);
+			} else if (key.home || input === 'g') {
+				setScroll(0);
+			} else if (key.end || input === 'G') {
+				setScroll(maxScroll);
+			}
+		},
+		{ isActive: focus }
+	);
+
+	const visible = lines.slice(scroll, scroll + pageSize);
+	const last = Math.min(lines.length, scroll + pageSize);
+
+	return (
+		<Box flexDirection="column" marginBottom={1}>
+			<Text bold color="magenta">
+				{title}
+			</Text>
+			<Box borderStyle="round" borderColor="magenta" flexDirection="column" paddingX={1}>
+				{visible.map((line, index) => (
+					<Text key={scroll + index} wrap="truncate-end">
+						{line || ' '}
+					</Text>
+				))}
+			</Box>
+			<Text color="gray" dimColor>
+				Lines {lines.length === 0 ? 0 : scroll + 1}-{last} of {lines.length} · ↑/↓ PgUp/PgDn to
+				scroll · e to edit · m to insert into your message · Esc to close
+			</Text>
+		</Box>
+	);
+}
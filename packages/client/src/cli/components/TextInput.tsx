@@ -1,10 +1,16 @@
 import chalk from 'chalk';
-import { Text, useInput } from 'ink';
+import { Text, useInput, useStdout } from 'ink';
 import type { Key } from 'ink';
 import React from 'react';
 import { useTextInput } from '../hooks/useTextInput.js';
 import { getTheme } from '../utils/theme.js';
 
+const ENABLE_BRACKETED_PASTE = '\x1b[?2004h';
+const DISABLE_BRACKETED_PASTE = '\x1b[?2004l';
+// Ink strips the leading escape from the paste start / end markers
+const PASTE_START = '[200~';
+const PASTE_END = '[201~';
+
 export type Props = {
 	/**
 	 * Optional callback for handling history navigation on up arrow at start of input
@@ -93,10 +99,15 @@ export type Props = {
 	readonly onImagePaste?: (base64Image: string) => void;
 
 	/**
-	 * Optional callback when a large text (over 800 chars) is pasted
+	 * Optional callback when text is pasted, with the text exactly as it was pasted
 	 */
 	readonly onPaste?: (text: string) => void;
 
+	/**
+	 * Optional callback for Tab, returns the completed value or undefined to leave it as is
+	 */
+	readonly onTabComplete?: (value: string) => string | undefined;
+
 	/**
 	 * Whether the input is dimmed and non-interactive
 	 */
@@ -134,6 +145,7 @@ export default function TextInput({
 	columns,
 	onImagePaste,
 	onPaste,
+	onTabComplete,
 	isDimmed = false,
 	disableCursorMovementForUpDownKeys = false,
 	cursorOffset,
@@ -146,6 +158,26 @@ export default function TextInput({
 		totalLength: number;
 	}>({ chunks: [], timeoutId: null, totalLength: 0 });
 
+	// Text collected between the bracketed paste markers, null outside of a paste
+	const bracketedPasteRef = React.useRef<string[] | null>(null);
+	const { stdout } = useStdout();
+
+	// With bracketed paste the terminal marks where a paste starts and ends, so a paste is
+	// recognized whatever its size and however the terminal splits it up
+	React.useEffect(() => {
+		if (!focus) {
+			return;
+		}
+
+		const disable = () => stdout.write(DISABLE_BRACKETED_PASTE);
+		stdout.write(ENABLE_BRACKETED_PASTE);
+		process.once('exit', disable);
+		return () => {
+			process.off('exit', disable);
+			disable();
+		};
+	}, [focus, stdout]);
+
 	const resetPasteTimeout = (currentTimeoutId: ReturnType<typeof setTimeout> | null) => {
 		if (currentTimeoutId) {
 			clearTimeout(currentTimeoutId);
@@ -193,12 +225,31 @@ export default function TextInput({
 		themeText: (text: string) => chalk.hex(getTheme().text)(text),
 		columns,
 		onImagePaste,
+		onTabComplete,
 		disableCursorMovementForUpDownKeys,
 		externalOffset: cursorOffset,
 		onOffsetChange: onChangeCursorOffset,
 	});
 
 	const wrappedOnInput = (input: string, key: Key): void => {
+		if (input === PASTE_START) {
+			bracketedPasteRef.current = [];
+			return;
+		}
+
+		if (bracketedPasteRef.current) {
+			if (input === PASTE_END) {
+				const pastedText = bracketedPasteRef.current.join('');
+				bracketedPasteRef.current = null;
+				onPaste?.(pastedText);
+				return;
+			}
+
+			// Ink reports line breaks and tabs that arrive on their own as keys without input
+			bracketedPasteRef.current.push(key.return ? '\n' : key.tab ? '\t' : input);
+			return;
+		}
+
 		if (key.backspace || key.delete || input === '\b' || input === '\x7f' || input === '\x08') {
 			onInput(input, {
 				...key,
@@ -207,6 +258,7 @@ export default function TextInput({
 			return;
 		}
 
+		// Fallback for terminals without bracketed paste: a long chunk is most likely a paste
 		if (input.length > 20 || pasteState.timeoutId || input.startsWith("'/")) {
 			setPasteState(({ chunks, timeoutId }) => {
 				return {
@@ -1,7 +1,11 @@
 import type { Key } from 'ink';
 import { useState } from 'react';
 import { Cursor } from '../utils/cursor.js';
-import { CLIPBOARD_ERROR_MESSAGE, getImageFromClipboard } from '../utils/imagePaste.js';
+import {
+	getClipboardErrorMessage,
+	getImageFromClipboard,
+	isImagePasteSupported,
+} from '../utils/imagePaste.js';
 import { useDoublePress } from './useDoublePress.js';
 
 type MaybeCursor = undefined | Cursor;
@@ -33,6 +37,7 @@ type UseTextInputProps = {
 	themeText: (text: string) => string;
 	columns: number;
 	onImagePaste?: (base64Image: string) => void;
+	onTabComplete?: (value: string) => string | undefined;
 	disableCursorMovementForUpDownKeys?: boolean;
 	externalOffset: number;
 	onOffsetChange: (offset: number) => void;
@@ -61,6 +66,7 @@ export function useTextInput({
 	invert,
 	columns,
 	onImagePaste,
+	onTabComplete,
 	disableCursorMovementForUpDownKeys = false,
 	externalOffset,
 	onOffsetChange,
@@ -129,10 +135,10 @@ export function useTextInput({
 	function tryImagePaste() {
 		const base64Image = getImageFromClipboard();
 		if (base64Image === null) {
-			if (process.platform !== 'darwin') {
+			if (!isImagePasteSupported()) {
 				return cursor;
 			}
-			onMessage?.(true, CLIPBOARD_ERROR_MESSAGE);
+			onMessage?.(true, getClipboardErrorMessage());
 			maybeClearImagePasteErrorTimeout();
 			setImagePasteErrorTimeout(
 				setTimeout(() => {
@@ -266,7 +272,12 @@ export function useTextInput({
 			case key.meta:
 				return handleMeta;
 			case key.tab:
-				return () => undefined;
+				return () => {
+					const completed = onTabComplete?.(originalValue);
+					return completed === undefined
+						? undefined
+						: Cursor.fromText(completed, columns, completed.length);
+				};
 			case key.upArrow:
 				return upOrHistoryUp;
 			case key.downArrow:
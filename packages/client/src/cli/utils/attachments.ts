@@ -0,0 +1,180 @@
+import { readFileSync, readdirSync, statSync } from 'node:fs';
+import { homedir } from 'node:os';
+import { basename, extname, isAbsolute, join, resolve, sep } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { getProjectDirectory } from './project.js';
+import type { AttachmentData } from './protocol.js';
+
+// Text files are sent whole, keep them to a size an agent can sensibly read
+const MAX_TEXT_FILE_BYTES = 1024 * 1024;
+const MAX_IMAGE_FILE_BYTES = 20 * 1024 * 1024;
+
+const IMAGE_EXTENSIONS = new Set(['.png', '.jpg', '.jpeg', '.gif', '.webp', '.bmp']);
+
+const TEXT_MIME_TYPES: Record<string, string> = {
+	'.json': 'application/json',
+	'.csv': 'text/csv',
+	'.md': 'text/markdown',
+	'.html': 'text/html',
+	'.xml': 'application/xml',
+	'.yaml': 'application/yaml',
+	'.yml': 'application/yaml',
+	'.js': 'text/javascript',
+	'.mjs': 'text/javascript',
+	'.ts': 'text/x-typescript',
+	'.tsx': 'text/x-typescript',
+	'.py': 'text/x-python',
+	'.sh': 'text/x-shellscript',
+};
+
+export type FileAttachment =
+	| { kind: 'image'; name: string; data: string }
+	| ({ kind: 'file' } & AttachmentData);
+
+export interface PathCompletion {
+	// The completed path, or the input unchanged when nothing matches
+	value: string;
+	candidates: string[];
+}
+
+/**
+ * Turns a typed or pasted path into an absolute one. Terminals hand dragged files over
+ * quoted, with escaped spaces or as file:// URLs; relative paths are taken from the project.
+ */
+export function resolveAttachmentPath(input: string): string {
+	let value = input.trim();
+	if (/^(['"]).*\1$/.test(value)) {
+		value = value.slice(1, -1);
+	} else {
+		value = value.replace(/\\(.)/g, '$1');
+	}
+
+	if (value.startsWith('file://')) {
+		try {
+			value = fileURLToPath(value);
+		} catch {
+			// Not a valid file URL, treat it as a plain path
+		}
+	}
+	if (value === '~' || value.startsWith('~/')) {
+		value = join(homedir(), value.slice(1));
+	}
+
+	return isAbsolute(value) ? value : resolve(getProjectDirectory(), value);
+}
+
+function isFile(path: string): boolean {
+	try {
+		return statSync(path).isFile();
+	} catch {
+		return false;
+	}
+}
+
+/**
+ * Returns the absolute path when pasted text is nothing but the path of an existing file,
+ * which is what dragging a file into the terminal produces. Returns null otherwise.
+ */
+export function detectPastedFilePath(text: string): string | null {
+	const value = text.trim();
+	if (!value || value.includes('\n')) {
+		return null;
+	}
+
+	const path = resolveAttachmentPath(value);
+	return isFile(path) ? path : null;
+}
+
+function commonPrefix(values: string[]): string {
+	return values.reduce((prefix, value) => {
+		let length = 0;
+		while (length < prefix.length && prefix[length] === value[length]) length++;
+		return prefix.slice(0, length);
+	});
+}
+
+/**
+ * Completes the last path segment of `partial` against the file system, relative to the
+ * project directory. A single match is completed fully (directories get a trailing slash),
+ * several matches are completed as far as they agree.
+ */
+export function completePath(partial: string): PathCompletion {
+	const separatorIndex = Math.max(partial.lastIndexOf('/'), partial.lastIndexOf(sep));
+	const directoryPart = separatorIndex >= 0 ? partial.slice(0, separatorIndex + 1) : '';
+	const prefix = partial.slice(directoryPart.length);
+	const directory = directoryPart ? resolveAttachmentPath(directoryPart) : getProjectDirectory();
+
+	let entries: { name: string; isDirectory: boolean }[];
+	try {
+		entries = readdirSync(directory, { withFileTypes: true })
+			.filter(entry => entry.name.startsWith(prefix))
+			// Hidden files only show up once the user starts typing their name
+			.filter(entry => prefix.startsWith('.') || !entry.name.startsWith('.'))
+			.map(entry => ({ name: entry.name, isDirectory: entry.isDirectory() }));
+	} catch {
+		return { value: partial, candidates: [] };
+	}
+
+	if (entries.length === 0) {
+		return { value: partial, candidates: [] };
+	}
+
+	const names = entries.map(entry => (entry.isDirectory ? `${entry.name}/` : entry.name)).sort();
+	const completed = names.length === 1 ? (names[0] ?? prefix) : commonPrefix(names);
+	return { value: directoryPart + completed, candidates: names };
+}
+
+function isProbablyText(data: Buffer): boolean {
+	if (data.includes(0)) {
+		return false;
+	}
+	// Invalid UTF-8 does not survive a decode / encode round trip
+	return Buffer.from(data.toString('utf8'), 'utf8').equals(data);
+}
+
+function formatLimit(bytes: number): string {
+	return `${Math.round(bytes / (1024 * 1024))} MB`;
+}
+
+/**
+ * Reads a file for attaching. Images are returned as base64 for the image list, anything
+ * that looks like text as a named attachment. Throws with a readable message otherwise.
+ */
+export function readAttachment(path: string): FileAttachment {
+	const stats = statSync(path);
+	if (!stats.isFile()) {
+		throw new Error(`${path} is not a file`);
+	}
+
+	const name = basename(path);
+	const extension = extname(name).toLowerCase();
+
+	if (IMAGE_EXTENSIONS.has(extension)) {
+		if (stats.size > MAX_IMAGE_FILE_BYTES) {
+			throw new Error(`${name} is larger than ${formatLimit(MAX_IMAGE_FILE_BYTES)}`);
+		}
+		return { kind: 'image', name, data: readFileSync(path).toString('base64') };
+	}
+
+	if (stats.size > MAX_TEXT_FILE_BYTES) {
+		throw new Error(`${name} is larger than ${formatLimit(MAX_TEXT_FILE_BYTES)}`);
+	}
+
+	const data = readFileSync(path);
+	if (!isProbablyText(data)) {
+		throw new Error(`${name} is neither an image nor a text file`);
+	}
+
+	return {
+		kind: 'file',
+		name,
+		mimeType: TEXT_MIME_TYPES[extension] ?? 'text/plain',
+		content: data.toString('utf8'),
+	};
+}
+
+// Shows a path relative to the project when it is inside it
+export function describePath(path: string): string {
+	const projectDirectory = getProjectDirectory();
+	return path.startsWith(projectDirectory + sep) ? path.slice(projectDirectory.length + 1) : path;
+}
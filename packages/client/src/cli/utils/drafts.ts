@@ -0,0 +1,126 @@
+import { existsSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import type { ImageInfo } from './imageProcessing.js';
+import { getProjectFilePath } from './project.js';
+import type { AttachmentData } from './protocol.js';
+
+export interface PastedContent {
+	id: string;
+	content: string;
+	// Detected when pasted, used for the fence of the code block sent to the agent
+	language: string | null;
+	timestamp: number;
+	type: 'text';
+}
+
+export interface PastedImage {
+	id: string;
+	data: string;
+	timestamp: number;
+	name: string;
+	// Before and after downscaling / re-encoding
+	original?: ImageInfo;
+	final?: ImageInfo;
+}
+
+/**
+ * Everything the user has prepared for a reply but not sent yet.
+ */
+export interface Draft {
+	feedback: string;
+	pastedContents: PastedContent[];
+	pastedImages: PastedImage[];
+	attachments: AttachmentData[];
+	// The AI call the draft was written for, null when written while no call was waiting
+	requestId: string | null;
+	savedAt: number;
+}
+
+export interface DraftFile {
+	current: Draft | null;
+	// The draft that was pushed aside by a new AI call, brought back with /restore
+	previous: Draft | null;
+}
+
+export function getDraftFilePath(): string {
+	return getProjectFilePath('.mcp-feedback-draft.json');
+}
+
+export function isDraftEmpty(draft: Draft | null): boolean {
+	return (
+		!draft ||
+		(!draft.feedback.trim() &&
+			draft.pastedContents.length === 0 &&
+			draft.pastedImages.length === 0 &&
+			draft.attachments.length === 0)
+	);
+}
+
+function parseDraft(value: unknown): Draft | null {
+	if (!value || typeof value !== 'object') return null;
+	const draft = value as Partial<Draft>;
+	if (
+		typeof draft.feedback !== 'string' ||
+		!Array.isArray(draft.pastedContents) ||
+		!Array.isArray(draft.pastedImages) ||
+		!Array.isArray(draft.attachments)
+	) {
+		return null;
+	}
+
+	return {
+		feedback: draft.feedback,
+		pastedContents: draft.pastedContents,
+		pastedImages: draft.pastedImages,
+		attachments: draft.attachments,
+		requestId: typeof draft.requestId === 'string' ? draft.requestId : null,
+		savedAt: typeof draft.savedAt === 'number' ? draft.savedAt : Date.now(),
+	};
+}
+
+/**
+ * Reads the saved drafts of this project. A missing or unreadable file means no drafts.
+ */
+export function loadDrafts(): DraftFile {
+	const draftFile = getDraftFilePath();
+	if (!existsSync(draftFile)) return { current: null, previous: null };
+
+	try {
+		const data = JSON.parse(readFileSync(draftFile, 'utf8')) as Partial<DraftFile>;
+		return { current: parseDraft(data.current), previous: parseDraft(data.previous) };
+	} catch {
+		return { current: null, previous: null };
+	}
+}
+
+/**
+ * Writes the drafts, or removes the file when there is nothing left to keep.
+ * Failures are swallowed, a lost draft file must not break the terminal.
+ */
+export function saveDrafts(drafts: DraftFile): void {
+	const draftFile = getDraftFilePath();
+	const current = isDraftEmpty(drafts.current) ? null : drafts.current;
+	const previous = isDraftEmpty(drafts.previous) ? null : drafts.previous;
+
+	try {
+		if (!current && !previous) {
+			rmSync(draftFile, { force: true });
+			return;
+		}
+		// Drafts hold whatever the user typed or pasted, keep them private
+		writeFileSync(draftFile, JSON.stringify({ current, previous }), {
+			encoding: 'utf8',
+			mode: 0o600,
+		});
+	} catch {
+		// Nothing useful to tell the user mid-typing
+	}
+}
+
+export function describeDraft(draft: Draft): string {
+	const parts: string[] = [];
+	if (draft.feedback.trim()) parts.push(`${draft.feedback.trim().length} characters`);
+	if (draft.pastedContents.length) parts.push(`${draft.pastedContents.length} pasted block(s)`);
+	if (draft.pastedImages.length) parts.push(`${draft.pastedImages.length} image(s)`);
+	if (draft.attachments.length) parts.push(`${draft.attachments.length} file(s)`);
+	return parts.join(', ');
+}
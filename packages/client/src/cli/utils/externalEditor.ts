@@ -0,0 +1,97 @@
+import { spawnSync } from 'node:child_process';
+import { mkdtempSync, readFileSync, rmSync, statSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+// Same convention as git commit messages: everything from this line on is dropped
+const SCISSORS_LINE = '# ------------------------ >8 ------------------------';
+
+// The editor runs on the alternate screen with the cursor shown. Leaving it brings the UI back
+// exactly as Ink drew it, so Ink's next frame replaces the right lines.
+const ENTER_EDITOR_SCREEN = '\x1b[?1049h\x1b[?25h';
+const LEAVE_EDITOR_SCREEN = '\x1b[?1049l\x1b[?25l';
+
+export type EditorResult =
+	| { status: 'saved'; text: string }
+	| { status: 'unchanged' }
+	| { status: 'failed'; error: string };
+
+export function getEditorCommand(): string {
+	return (
+		process.env.VISUAL || process.env.EDITOR || (process.platform === 'win32' ? 'notepad' : 'vi')
+	);
+}
+
+// MCP_FEEDBACK_EDITOR_SUBMIT=true sends the feedback as soon as the editor is saved and closed
+export function isSubmitOnSaveEnabled(): boolean {
+	const value = process.env.MCP_FEEDBACK_EDITOR_SUBMIT?.toLowerCase();
+	return value === 'true' || value === '1' || value === 'on';
+}
+
+function buildTemplate(draft: string, summary: string): string {
+	const commentedSummary = summary
+		.split('\n')
+		.map(line => (line ? `# ${line}` : '#'))
+		.join('\n');
+
+	return `${draft}\n\n${SCISSORS_LINE}\n# Do not modify or remove the line above.\n# Everything below it will be ignored. The AI summary you are replying to:\n#\n${commentedSummary}\n`;
+}
+
+function stripTemplate(content: string): string {
+	const scissors = content.indexOf(SCISSORS_LINE);
+	const text = scissors >= 0 ? content.slice(0, scissors) : content;
+	return text.replace(/\s+$/, '');
+}
+
+/**
+ * Opens $VISUAL / $EDITOR on a temp file holding the draft and a commented copy of the
+ * summary, and blocks until the editor exits. Run it inside withTerminalReleased().
+ * Returns 'unchanged' when the editor quit without saving.
+ */
+export function composeInEditor(draft: string, summary: string): EditorResult {
+	const directory = mkdtempSync(join(tmpdir(), 'mcp-feedback-'));
+	const file = join(directory, 'FEEDBACK.md');
+
+	try {
+		const template = buildTemplate(draft, summary);
+		writeFileSync(file, template, { encoding: 'utf8', mode: 0o600 });
+		const writtenAt = statSync(file).mtimeMs;
+
+		// Run through the shell so editors configured with arguments ("code --wait") work
+		const editor = getEditorCommand();
+		const result = spawnSync(`${editor} "${file}"`, { shell: true, stdio: 'inherit' });
+		if (result.error) {
+			return { status: 'failed', error: result.error.message };
+		}
+		if (result.status !== 0) {
+			return { status: 'failed', error: `${editor} exited with code ${result.status}` };
+		}
+
+		const content = readFileSync(file, 'utf8');
+		if (statSync(file).mtimeMs === writtenAt && content === template) {
+			return { status: 'unchanged' };
+		}
+		return { status: 'saved', text: stripTemplate(content) };
+	} catch (error) {
+		return { status: 'failed', error: error instanceof Error ? error.message : String(error) };
+	} finally {
+		rmSync(directory, { recursive: true, force: true });
+	}
+}
+
+/**
+ * Hands the terminal over to a program that runs in the foreground: raw mode is turned off
+ * and Ink's output is set aside on the main screen, both are restored once run returns.
+ */
+export function withTerminalReleased<T>(run: () => T): T {
+	const { stdin, stdout } = process;
+	if (stdin.isTTY) stdin.setRawMode(false);
+	if (stdout.isTTY) stdout.write(ENTER_EDITOR_SCREEN);
+
+	try {
+		return run();
+	} finally {
+		if (stdout.isTTY) stdout.write(LEAVE_EDITOR_SCREEN);
+		if (stdin.isTTY) stdin.setRawMode(true);
+	}
+}
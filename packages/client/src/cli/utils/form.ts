@@ -0,0 +1,79 @@
+import type { FormField, FormValue } from './protocol.js';
+
+// What the user has typed so far: text for inputs and selects, booleans for checkboxes
+export type RawFormValues = Record<string, string | boolean>;
+
+export function getInitialFormValues(fields: FormField[]): RawFormValues {
+	const raw: RawFormValues = {};
+	for (const field of fields) {
+		if (field.type === 'boolean') {
+			raw[field.name] = field.default === true;
+		} else if (field.enum) {
+			raw[field.name] =
+				field.default !== undefined
+					? String(field.default)
+					: field.required
+						? (field.enum[0] ?? '')
+						: '';
+		} else {
+			raw[field.name] = field.default !== undefined ? String(field.default) : '';
+		}
+	}
+	return raw;
+}
+
+export function getEnumChoices(field: FormField): string[] {
+	const choices = field.enum ?? [];
+	return field.required ? choices : ['', ...choices];
+}
+
+export function validateForm(
+	fields: FormField[],
+	raw: RawFormValues
+): { values: Record<string, FormValue>; errors: Record<string, string> } {
+	const values: Record<string, FormValue> = {};
+	const errors: Record<string, string> = {};
+
+	for (const field of fields) {
+		const rawValue = raw[field.name];
+
+		if (field.type === 'boolean') {
+			values[field.name] = rawValue === true;
+			continue;
+		}
+
+		const text = typeof rawValue === 'string' ? rawValue.trim() : '';
+		if (text === '') {
+			if (field.required) {
+				errors[field.name] = 'This field is required';
+			}
+			continue;
+		}
+
+		if (field.type === 'number' || field.type === 'integer') {
+			const value = Number(text);
+			if (!Number.isFinite(value)) {
+				errors[field.name] = 'Enter a number';
+			} else if (field.type === 'integer' && !Number.isInteger(value)) {
+				errors[field.name] = 'Enter a whole number';
+			} else if (field.minimum !== undefined && value < field.minimum) {
+				errors[field.name] = `Must be at least ${field.minimum}`;
+			} else if (field.maximum !== undefined && value > field.maximum) {
+				errors[field.name] = `Must be at most ${field.maximum}`;
+			} else {
+				values[field.name] = value;
+			}
+			continue;
+		}
+
+		if (field.enum && !field.enum.includes(text)) {
+			errors[field.name] = `Choose one of: ${field.enum.join(', ')}`;
+		} else if (field.pattern && !new RegExp(field.pattern).test(text)) {
+			errors[field.name] = `Must match ${field.pattern}`;
+		} else {
+			values[field.name] = text;
+		}
+	}
+
+	return { values, errors };
+}
@@ -1,39 +1,176 @@
-import { execSync } from 'node:child_process';
-import { readFileSync } from 'node:fs';
+import { execFileSync } from 'node:child_process';
+import { readFileSync, rmSync } from 'node:fs';
 
 const SCREENSHOT_PATH = '/tmp/mcp_feedback_enhanced_latest_screenshot.png';
 
-export const CLIPBOARD_ERROR_MESSAGE =
-	'No image data in clipboard. Please copy an image first (e.g., use Cmd+Shift+4 to screenshot to clipboard)';
+// Clipboard tools normally answer instantly; a hung one must not freeze the terminal
+const COMMAND_TIMEOUT_MS = 5000;
+const MAX_CLIPBOARD_BYTES = 64 * 1024 * 1024;
 
-export function getImageFromClipboard(): string | null {
-	if (process.platform !== 'darwin') {
-		console.log('Image paste feature currently only supports macOS');
-		return null;
-	}
+/**
+ * Runs a clipboard command and returns its stdout, or null when the command is
+ * missing, fails or times out. Replaceable so tests can fake the clipboard tools.
+ */
+export type ClipboardCommandRunner = (command: string, args: string[]) => Buffer | null;
+
+export interface ClipboardBackend {
+	name: string;
+	// How to get an image onto the clipboard, shown when there is none
+	copyHint: string;
+	// Base64 image data, or null when the clipboard holds no image
+	readImage(): string | null;
+}
 
+export const runClipboardCommand: ClipboardCommandRunner = (command, args) => {
 	try {
-		execSync(`osascript -e 'the clipboard as «class PNGf»'`, {
-			stdio: 'ignore',
+		return execFileSync(command, args, {
+			stdio: ['ignore', 'pipe', 'ignore'],
+			timeout: COMMAND_TIMEOUT_MS,
+			maxBuffer: MAX_CLIPBOARD_BYTES,
 		});
+	} catch {
+		return null;
+	}
+};
 
-		execSync(
-			`osascript -e 'set png_data to (the clipboard as «class PNGf»)' -e 'set fp to open for access POSIX file "${SCREENSHOT_PATH}" with write permission' -e 'write png_data to fp' -e 'close access fp'`,
-			{ stdio: 'ignore' }
-		);
+// PNG is lossless and understood everywhere, so it wins over whatever else the clipboard offers
+function pickImageType(targets: string): string | null {
+	const types = targets
+		.split('\n')
+		.map(type => type.trim())
+		.filter(type => type.startsWith('image/'));
+	return types.includes('image/png') ? 'image/png' : (types[0] ?? null);
+}
 
-		const imageBuffer = readFileSync(SCREENSHOT_PATH);
-		const base64Image = imageBuffer.toString('base64');
+function toBase64(data: Buffer | null): string | null {
+	return data && data.length > 0 ? data.toString('base64') : null;
+}
 
-		execSync(`rm -f "${SCREENSHOT_PATH}"`, { stdio: 'ignore' });
+function createMacOSBackend(run: ClipboardCommandRunner): ClipboardBackend {
+	return {
+		name: 'macOS',
+		copyHint: 'e.g., use Cmd+Shift+4 to screenshot to clipboard',
+		readImage() {
+			// Only the list of types, the image data is read once it is known to be there
+			const info = run('osascript', ['-e', 'clipboard info']);
+			if (!info || !/«class PNGf»|TIFF picture/.test(info.toString('utf8'))) {
+				return null;
+			}
 
-		return base64Image;
-	} catch {
-		console.log('No image data in clipboard or read failed');
-		return null;
+			const written = run('osascript', [
+				'-e',
+				'set png_data to (the clipboard as «class PNGf»)',
+				'-e',
+				`set fp to open for access POSIX file "${SCREENSHOT_PATH}" with write permission`,
+				'-e',
+				'write png_data to fp',
+				'-e',
+				'close access fp',
+			]);
+			if (written === null) {
+				return null;
+			}
+
+			try {
+				return toBase64(readFileSync(SCREENSHOT_PATH));
+			} catch {
+				return null;
+			} finally {
+				rmSync(SCREENSHOT_PATH, { force: true });
+			}
+		},
+	};
+}
+
+function createWaylandBackend(run: ClipboardCommandRunner): ClipboardBackend {
+	return {
+		name: 'Wayland (wl-paste)',
+		copyHint: 'e.g., take a screenshot and copy it to the clipboard',
+		readImage() {
+			const targets = run('wl-paste', ['--list-types']);
+			const type = targets && pickImageType(targets.toString('utf8'));
+			if (!type) {
+				return null;
+			}
+			return toBase64(run('wl-paste', ['--no-newline', '--type', type]));
+		},
+	};
+}
+
+function createX11Backend(run: ClipboardCommandRunner): ClipboardBackend {
+	return {
+		name: 'X11 (xclip)',
+		copyHint: 'e.g., take a screenshot and copy it to the clipboard',
+		readImage() {
+			const targets = run('xclip', ['-selection', 'clipboard', '-t', 'TARGETS', '-o']);
+			const type = targets && pickImageType(targets.toString('utf8'));
+			if (!type) {
+				return null;
+			}
+			return toBase64(run('xclip', ['-selection', 'clipboard', '-t', type, '-o']));
+		},
+	};
+}
+
+/**
+ * Picks the clipboard backend for the current session: osascript on macOS, and on Linux
+ * wl-paste under Wayland or xclip under X11 (XWayland sessions fall back to xclip when
+ * wl-paste is missing). Returns null when no usable tool is installed.
+ */
+export function createClipboardBackend(
+	platform: NodeJS.Platform = process.platform,
+	env: NodeJS.ProcessEnv = process.env,
+	run: ClipboardCommandRunner = runClipboardCommand
+): ClipboardBackend | null {
+	if (platform === 'darwin') {
+		return createMacOSBackend(run);
 	}
+
+	if (env.WAYLAND_DISPLAY && run('wl-paste', ['--version']) !== null) {
+		return createWaylandBackend(run);
+	}
+	if (env.DISPLAY && run('xclip', ['-version']) !== null) {
+		return createX11Backend(run);
+	}
+	return null;
+}
+
+let clipboardBackend: ClipboardBackend | null | undefined;
+
+export function getClipboardBackend(): ClipboardBackend | null {
+	if (clipboardBackend === undefined) {
+		clipboardBackend = createClipboardBackend();
+	}
+	return clipboardBackend;
+}
+
+// Overrides the detected backend, pass undefined to detect again on next use
+export function setClipboardBackend(backend: ClipboardBackend | null | undefined): void {
+	clipboardBackend = backend;
+}
+
+export function getImageFromClipboard(): string | null {
+	return getClipboardBackend()?.readImage() ?? null;
 }
 
 export function isImagePasteSupported(): boolean {
-	return process.platform === 'darwin';
+	return getClipboardBackend() !== null;
+}
+
+export function getClipboardErrorMessage(): string {
+	const hint = getClipboardBackend()?.copyHint;
+	return `No image data in clipboard. Please copy an image first${hint ? ` (${hint})` : ''}`;
+}
+
+export function getImagePasteUnavailableMessage(): string {
+	if (process.platform !== 'linux') {
+		return 'Image paste is only supported on macOS and Linux';
+	}
+	if (process.env.WAYLAND_DISPLAY) {
+		return 'Image paste needs wl-paste (install wl-clipboard) or xclip';
+	}
+	if (process.env.DISPLAY) {
+		return 'Image paste needs xclip (install the xclip package)';
+	}
+	return 'Image paste needs a graphical session (Wayland or X11)';
 }
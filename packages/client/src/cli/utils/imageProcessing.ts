@@ -0,0 +1,289 @@
+import { readFileSync } from 'node:fs';
+import { createRequire } from 'node:module';
+import encodeWebp, { init as initWebpEncoder } from '@jsquash/webp/encode.js';
+import jpeg from 'jpeg-js';
+import { PNG } from 'pngjs';
+
+export type ImageOutputFormat = 'original' | 'jpeg' | 'webp';
+
+export interface ImageProcessingOptions {
+	// Longest edge in pixels, larger images are scaled down to fit
+	maxDimension: number;
+	format: ImageOutputFormat;
+	// 1-100, used when re-encoding to JPEG or WebP
+	quality: number;
+}
+
+export interface ImageInfo {
+	format: string;
+	bytes: number;
+	// Unknown for formats that are passed through without decoding
+	width?: number;
+	height?: number;
+}
+
+export interface ProcessedImage {
+	name: string;
+	data: string;
+	original: ImageInfo;
+	final: ImageInfo;
+}
+
+interface RawImage {
+	width: number;
+	height: number;
+	// RGBA, 4 bytes per pixel
+	data: Uint8Array;
+}
+
+const DEFAULT_MAX_DIMENSION = 1568;
+const DEFAULT_QUALITY = 80;
+
+// The server's default MCP_FEEDBACK_MAX_IMAGE_MB, a kept original must not be rejected there
+const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+
+/**
+ * Reads MCP_FEEDBACK_IMAGE_MAX_DIMENSION, MCP_FEEDBACK_IMAGE_FORMAT and
+ * MCP_FEEDBACK_IMAGE_QUALITY, falling back to the defaults for missing or invalid values.
+ */
+export function getImageProcessingOptions(): ImageProcessingOptions {
+	const maxDimension = Number.parseInt(process.env.MCP_FEEDBACK_IMAGE_MAX_DIMENSION ?? '', 10);
+	const quality = Number.parseInt(process.env.MCP_FEEDBACK_IMAGE_QUALITY ?? '', 10);
+	const format = process.env.MCP_FEEDBACK_IMAGE_FORMAT?.trim().toLowerCase();
+
+	return {
+		maxDimension: maxDimension > 0 ? maxDimension : DEFAULT_MAX_DIMENSION,
+		format:
+			format === 'jpeg' || format === 'jpg' ? 'jpeg' : format === 'webp' ? 'webp' : 'original',
+		quality: quality >= 1 && quality <= 100 ? quality : DEFAULT_QUALITY,
+	};
+}
+
+function detectFormat(data: Buffer): string {
+	if (data.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) {
+		return 'png';
+	}
+	if (data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff) return 'jpeg';
+	if (data.subarray(0, 4).toString('latin1') === 'GIF8') return 'gif';
+	if (data.subarray(8, 12).toString('latin1') === 'WEBP') return 'webp';
+	if (data.subarray(0, 2).toString('latin1') === 'BM') return 'bmp';
+	return 'unknown';
+}
+
+function decode(data: Buffer, format: string): RawImage | null {
+	if (format === 'png') {
+		return PNG.sync.read(data);
+	}
+	if (format === 'jpeg') {
+		return jpeg.decode(data, { useTArray: true, formatAsRGBA: true });
+	}
+	return null;
+}
+
+/**
+ * Box-filter downscale: every target pixel is the average of the source pixels it covers,
+ * which keeps text in screenshots readable better than nearest-neighbour sampling.
+ */
+function resize(image: RawImage, width: number, height: number): RawImage {
+	const data = new Uint8Array(width * height * 4);
+	const scaleX = image.width / width;
+	const scaleY = image.height / height;
+
+	for (let y = 0; y < height; y++) {
+		const top = Math.floor(y * scaleY);
+		const bottom = Math.max(top + 1, Math.min(image.height, Math.ceil((y + 1) * scaleY)));
+
+		for (let x = 0; x < width; x++) {
+			const left = Math.floor(x * scaleX);
+			const right = Math.max(left + 1, Math.min(image.width, Math.ceil((x + 1) * scaleX)));
+
+			let r = 0;
+			let g = 0;
+			let b = 0;
+			let a = 0;
+			for (let sy = top; sy < bottom; sy++) {
+				let offset = (sy * image.width + left) * 4;
+				for (let sx = left; sx < right; sx++) {
+					r += image.data[offset];
+					g += image.data[offset + 1];
+					b += image.data[offset + 2];
+					a += image.data[offset + 3];
+					offset += 4;
+				}
+			}
+
+			const count = (bottom - top) * (right - left);
+			const target = (y * width + x) * 4;
+			data[target] = Math.round(r / count);
+			data[target + 1] = Math.round(g / count);
+			data[target + 2] = Math.round(b / count);
+			data[target + 3] = Math.round(a / count);
+		}
+	}
+
+	return { width, height, data };
+}
+
+// JPEG has no alpha channel, so transparent areas are put on a white background
+function flattenAlpha(image: RawImage): RawImage {
+	const data = new Uint8Array(image.data.length);
+	for (let i = 0; i < image.data.length; i += 4) {
+		const alpha = image.data[i + 3] / 255;
+		data[i] = Math.round(image.data[i] * alpha + 255 * (1 - alpha));
+		data[i + 1] = Math.round(image.data[i + 1] * alpha + 255 * (1 - alpha));
+		data[i + 2] = Math.round(image.data[i + 2] * alpha + 255 * (1 - alpha));
+		data[i + 3] = 255;
+	}
+	return { ...image, data };
+}
+
+// The tsconfig lib has no DOM types, which is where the WebAssembly global is declared
+interface WasmApi {
+	validate(bytes: Uint8Array): boolean;
+	Module: new (bytes: Uint8Array) => object;
+	instantiate(module: object, imports: unknown): Promise<unknown>;
+}
+
+const wasmApi = (globalThis as unknown as { WebAssembly: WasmApi }).WebAssembly;
+
+let webpEncoderReady: Promise<unknown> | null = null;
+
+// The WebP encoder is WebAssembly; its loader expects a browser, so the module is handed over directly
+function loadWebpEncoder(): Promise<unknown> {
+	if (!webpEncoderReady) {
+		const require = createRequire(import.meta.url);
+		const simdWasm = readFileSync(require.resolve('@jsquash/webp/codec/enc/webp_enc_simd.wasm'));
+		const wasm = wasmApi.validate(simdWasm)
+			? simdWasm
+			: readFileSync(require.resolve('@jsquash/webp/codec/enc/webp_enc.wasm'));
+		const wasmModule = new wasmApi.Module(wasm);
+
+		// Emscripten waits for the callback forever, so a failed instantiation has to reject separately
+		let failInstantiation: (error: unknown) => void = () => {};
+		const instantiationFailed = new Promise<never>((_resolve, reject) => {
+			failInstantiation = reject;
+		});
+
+		webpEncoderReady = Promise.race([
+			initWebpEncoder({
+				// Emscripten expects the instance in the callback
+				instantiateWasm: (imports: unknown, successCallback: (instance: unknown) => void) => {
+					wasmApi.instantiate(wasmModule, imports).then(successCallback).catch(failInstantiation);
+					return {};
+				},
+			}),
+			instantiationFailed,
+		]);
+	}
+	return webpEncoderReady;
+}
+
+async function encode(image: RawImage, format: string, quality: number): Promise<Buffer> {
+	switch (format) {
+		case 'jpeg':
+			return jpeg.encode(flattenAlpha(image), quality).data;
+		case 'webp': {
+			await loadWebpEncoder();
+			const data = new Uint8ClampedArray(
+				image.data.buffer,
+				image.data.byteOffset,
+				image.data.length
+			);
+			return Buffer.from(
+				await encodeWebp({ data, width: image.width, height: image.height }, { quality })
+			);
+		}
+		default: {
+			const png = new PNG({ width: image.width, height: image.height });
+			png.data = Buffer.from(image.data);
+			return PNG.sync.write(png);
+		}
+	}
+}
+
+function withExtension(name: string, format: string): string {
+	const extension = format === 'jpeg' ? 'jpg' : format;
+	return `${name.replace(/\.[^.]+$/, '')}.${extension}`;
+}
+
+/**
+ * Scales an image down to options.maxDimension and re-encodes it when a target format is
+ * configured. PNG and JPEG can be processed; other formats are passed through unchanged.
+ * An image that already fits is kept as it is when re-encoding fails or does not make it
+ * smaller; a downscaled image is always sent downscaled.
+ */
+export async function processImage(
+	base64: string,
+	name: string,
+	options: ImageProcessingOptions
+): Promise<ProcessedImage> {
+	const input = Buffer.from(base64, 'base64');
+	const format = detectFormat(input);
+	const original: ImageInfo = { format, bytes: input.length };
+	const unchanged = { name, data: base64, original, final: original };
+
+	let image: RawImage | null;
+	try {
+		image = decode(input, format);
+	} catch {
+		image = null;
+	}
+	if (!image) {
+		return unchanged;
+	}
+
+	original.width = image.width;
+	original.height = image.height;
+
+	const scale = Math.min(1, options.maxDimension / Math.max(image.width, image.height));
+	const targetFormat = options.format === 'original' ? format : options.format;
+	if (scale === 1 && targetFormat === format) {
+		return unchanged;
+	}
+
+	const resized =
+		scale < 1
+			? resize(
+					image,
+					Math.max(1, Math.round(image.width * scale)),
+					Math.max(1, Math.round(image.height * scale))
+				)
+			: image;
+	let outputFormat = targetFormat;
+	let output: Buffer;
+	try {
+		output = await encode(resized, targetFormat, options.quality);
+	} catch {
+		if (scale === 1) {
+			return unchanged;
+		}
+		// Only the WebP encoder can fail, PNG and JPEG are encoded in plain JavaScript
+		outputFormat = format;
+		output = await encode(resized, format, options.quality);
+	}
+
+	if (scale === 1 && input.length <= output.length && input.length <= MAX_IMAGE_BYTES) {
+		return unchanged;
+	}
+
+	return {
+		name: withExtension(name, outputFormat),
+		data: output.toString('base64'),
+		original,
+		final: {
+			format: outputFormat,
+			bytes: output.length,
+			width: resized.width,
+			height: resized.height,
+		},
+	};
+}
+
+export function formatImageInfo(info: ImageInfo): string {
+	const size =
+		info.bytes >= 1024 * 1024
+			? `${(info.bytes / (1024 * 1024)).toFixed(1)} MB`
+			: `${Math.ceil(info.bytes / 1024)} KB`;
+	const dimensions = info.width && info.height ? `${info.width}×${info.height} ` : '';
+	return `${dimensions}${info.format.toUpperCase()} ${size}`;
+}
@@ -0,0 +1,86 @@
+import { appendFileSync, existsSync, readFileSync, writeFileSync } from 'node:fs';
+import { getProjectFilePath } from './project.js';
+
+// Older entries are dropped once the file grows past this
+const MAX_ENTRIES = 500;
+
+export function getInputHistoryFilePath(): string {
+	return getProjectFilePath('.mcp-feedback-input-history.jsonl');
+}
+
+export function isInputHistoryEnabled(): boolean {
+	const value = process.env.MCP_FEEDBACK_INPUT_HISTORY?.toLowerCase();
+	return value !== 'false' && value !== '0' && value !== 'off';
+}
+
+/**
+ * Reads the submitted replies of this project, oldest first. Each line is a JSON string
+ * so multi-line replies survive; lines that cannot be parsed are skipped.
+ */
+export function loadInputHistory(): string[] {
+	const historyFile = getInputHistoryFilePath();
+	if (!isInputHistoryEnabled() || !existsSync(historyFile)) return [];
+
+	const entries: string[] = [];
+	try {
+		for (const line of readFileSync(historyFile, 'utf8').split('\n')) {
+			if (!line.trim()) continue;
+			try {
+				const entry: unknown = JSON.parse(line);
+				if (typeof entry === 'string') entries.push(entry);
+			} catch {
+				// Cut short by a crash, ignore
+			}
+		}
+	} catch {
+		return [];
+	}
+	return entries;
+}
+
+/**
+ * Appends a reply to the history and returns the updated list. Repeating the latest entry
+ * is not recorded twice. Failures are swallowed: history must never get in the way of a reply.
+ */
+export function appendInputHistory(history: string[], entry: string): string[] {
+	if (!entry.trim() || history[history.length - 1] === entry) {
+		return history;
+	}
+
+	const updated = [...history, entry].slice(-MAX_ENTRIES);
+	if (!isInputHistoryEnabled()) {
+		return updated;
+	}
+
+	const historyFile = getInputHistoryFilePath();
+	try {
+		// Replies can contain anything the user typed, keep the file private
+		if (updated.length < history.length + 1) {
+			const content = updated.map(item => `${JSON.stringify(item)}\n`).join('');
+			writeFileSync(historyFile, content, { encoding: 'utf8', mode: 0o600 });
+		} else {
+			appendFileSync(historyFile, `${JSON.stringify(entry)}\n`, { encoding: 'utf8', mode: 0o600 });
+		}
+	} catch {
+		// Not worth interrupting the user for
+	}
+	return updated;
+}
+
+/**
+ * Finds the newest entry older than `before` that contains `query` (case-insensitive).
+ * Returns its index, or -1 when there is none.
+ */
+export function searchInputHistory(
+	history: string[],
+	query: string,
+	before = history.length
+): number {
+	const needle = query.toLowerCase();
+	for (let index = Math.min(before, history.length) - 1; index >= 0; index--) {
+		if (history[index]?.toLowerCase().includes(needle)) {
+			return index;
+		}
+	}
+	return -1;
+}
@@ -0,0 +1,68 @@
+// Checked in order, the first match wins; each test looks at the whole pasted text
+const LANGUAGE_PATTERNS: Array<[string, RegExp]> = [
+	['diff', /^(diff --git |--- \S.*\n\+\+\+ \S|@@ -\d+(,\d+)? \+\d+(,\d+)? @@)/m],
+	['python', /^Traceback \(most recent call last\):|^\s*File ".+", line \d+/m],
+	['java', /^\s+at [\w$.]+\([\w$]+\.(java|kt):\d+\)/m],
+	['javascript', /^\s+at .+ \(?(node:|file:\/\/|\/|[A-Za-z]:\\).+:\d+:\d+\)?$/m],
+	['html', /^\s*(<!DOCTYPE html|<html[\s>])/i],
+	['xml', /^\s*<\?xml /],
+	['sql', /^\s*(SELECT\s[\s\S]+\sFROM|INSERT\s+INTO|UPDATE\s+\w+\s+SET|CREATE\s+TABLE)\b/i],
+	['go', /^package \w+$[\s\S]*^func /m],
+	['rust', /^\s*(pub\s+)?(fn|impl|struct|enum|use)\s.*[{;]\s*$[\s\S]*\blet\s+(mut\s+)?\w+/m],
+	['python', /^\s*(def \w+\(.*\):|class \w+(\(.*\))?:|from [\w.]+ import |import \w+$)/m],
+	['typescript', /^\s*(export\s+)?(interface|type)\s+\w+.*[={]|:\s*(string|number|boolean)\b/m],
+	['javascript', /^\s*(import .+ from |export |const |let |function \w+\(|module\.exports)/m],
+	['bash', /^\s*(\$ |#!\/bin\/(ba|z)?sh|(sudo|npm|pnpm|npx|git|cd|ls|export) )/m],
+	['css', /^\s*[.#]?[\w-]+(\s*[,>+~]\s*[.#]?[\w-]+)*\s*\{\s*$[\s\S]*^\s*[\w-]+\s*:.+;\s*$/m],
+	['yaml', /^(---\s*$|[\w.-]+:(\s|$)[\s\S]*\n\s*[\w.-]+:(\s|$)|\s*- [\w.-]+:\s)/m],
+];
+
+/**
+ * Guesses the language of pasted text for the fence of its code block.
+ * Returns null when nothing matches, the block is then sent as plain text.
+ */
+export function detectLanguage(text: string): string | null {
+	const trimmed = text.trim();
+	if (!trimmed) {
+		return null;
+	}
+
+	if (/^[{[]/.test(trimmed)) {
+		try {
+			JSON.parse(trimmed);
+			return 'json';
+		} catch {
+			// Not JSON, try the patterns
+		}
+	}
+
+	for (const [language, pattern] of LANGUAGE_PATTERNS) {
+		if (pattern.test(trimmed)) {
+			return language;
+		}
+	}
+	return null;
+}
+
+// Terminals send \r for line breaks, normalized so the text reaches the agent as it was copied
+export function normalizePastedText(text: string): string {
+	return text.replace(/\r\n?/g, '\n');
+}
+
+export function countLines(text: string): number {
+	return text.replace(/\n$/, '').split('\n').length;
+}
+
+/**
+ * Wraps a pasted block in a labelled fenced code block. The fence is made longer than any
+ * run of backticks inside the text so pasted Markdown cannot close it early.
+ */
+export function formatPastedBlock(content: string, index: number, language: string | null): string {
+	const longestRun = Math.max(0, ...(content.match(/`+/g) ?? []).map(run => run.length));
+	const fence = '`'.repeat(Math.max(3, longestRun + 1));
+	const lines = countLines(content);
+	const label = `Pasted text #${index + 1} (${language ?? 'text'}, ${lines} line${lines === 1 ? '' : 's'}):`;
+	const body = content.endsWith('\n') ? content : `${content}\n`;
+
+	return `${label}\n${fence}${language ?? ''}\n${body}${fence}`;
+}
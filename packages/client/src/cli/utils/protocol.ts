@@ -0,0 +1,474 @@
+/**
+ * WebSocket protocol spoken between mcp-feedback-server and mcp-feedback-terminal.
+ *
+ * This file is kept identical in packages/server/src/lib/protocol.ts and
+ * packages/client/src/cli/utils/protocol.ts so that both packages can be released
+ * independently. Bump PROTOCOL_VERSION for any change that an older peer cannot handle.
+ */
+
+export const PROTOCOL_VERSION = 1;
+
+// Close code used when the peers do not speak the same protocol version
+export const CLOSE_CODE_UNSUPPORTED_VERSION = 4001;
+
+// 'activity': the server accepts "activity" messages and reports them to the agent
+// 'cancel': the client understands "cancelled" messages (others are sent "timeout" instead)
+// 'attachments': the server passes "result.attachments" on to the agent
+// 'queue': the server keeps a reply sent while no call is waiting for the next call,
+// and the client understands "queued" messages
+// 'ack': the server answers every submission carrying a submissionId with "ack" or "rejected"
+// 'sync': the client understands "sync" messages
+export type Capability =
+	| 'choice'
+	| 'form'
+	| 'activity'
+	| 'cancel'
+	| 'attachments'
+	| 'queue'
+	| 'ack'
+	| 'sync';
+
+export interface ImageData {
+	name: string;
+	data: string;
+	// Detected from the data by the server, clients leave it out
+	mimeType?: string;
+}
+
+// A text file attached to a reply (log, JSON, CSV, source), given to the agent as a resource
+export interface AttachmentData {
+	name: string;
+	mimeType: string;
+	content: string;
+}
+
+export interface ChoiceOption {
+	id: string;
+	label: string;
+	description?: string;
+}
+
+export interface ChoiceRequest {
+	question: string;
+	options: ChoiceOption[];
+	multiSelect?: boolean;
+	allowOther?: boolean;
+}
+
+export interface ChoiceResult {
+	selected: string[];
+	other?: string;
+}
+
+export type FormFieldType = 'string' | 'number' | 'integer' | 'boolean';
+
+export type FormValue = string | number | boolean;
+
+export interface FormField {
+	name: string;
+	type: FormFieldType;
+	title?: string;
+	description?: string;
+	required?: boolean;
+	default?: FormValue;
+	enum?: string[];
+	minimum?: number;
+	maximum?: number;
+	pattern?: string;
+}
+
+export interface FormRequest {
+	message: string;
+	fields: FormField[];
+}
+
+export interface FormResult {
+	action: 'accept' | 'decline';
+	values?: Record<string, FormValue>;
+}
+
+export interface FeedbackResult {
+	interactive_feedback: string;
+	images?: ImageData[];
+	attachments?: AttachmentData[];
+	choice?: ChoiceResult;
+	form?: FormResult;
+}
+
+export interface PeerInfo {
+	name: string;
+	version: string;
+}
+
+// Client -> server
+
+export interface HelloMessage {
+	type: 'hello';
+	protocolVersion: number;
+	client: PeerInfo;
+	capabilities: Capability[];
+}
+
+export interface FeedbackMessage {
+	type: 'feedback';
+	requestId: string;
+	result: FeedbackResult;
+	// Chosen by the client, echoed in "ack" / "rejected". Resending with the same id is safe.
+	submissionId?: string;
+}
+
+// Sent while the user is typing an answer, at most every few seconds
+export interface ActivityMessage {
+	type: 'activity';
+	requestId: string;
+}
+
+// A reply written while no call is waiting, answers the agent's next interactive_feedback call.
+// A later "queue" replaces it.
+export interface QueueMessage {
+	type: 'queue';
+	result: FeedbackResult;
+	submissionId?: string;
+}
+
+// Takes back the queued reply
+export interface UnqueueMessage {
+	type: 'unqueue';
+}
+
+export type ClientMessage =
+	| HelloMessage
+	| FeedbackMessage
+	| ActivityMessage
+	| QueueMessage
+	| UnqueueMessage;
+
+// Server -> client
+
+export interface WelcomeMessage {
+	type: 'welcome';
+	protocolVersion: number;
+	server: PeerInfo;
+	capabilities: Capability[];
+}
+
+export interface PromptMessage {
+	type: 'prompt';
+	requestId: string;
+	summary: string;
+	deadline: number;
+	choice?: ChoiceRequest;
+	form?: FormRequest;
+}
+
+// Sent right after the handshake, followed by a "prompt" for each listed request. Prompts a
+// reconnecting client still shows but that are not listed were settled while it was away.
+export interface SyncMessage {
+	type: 'sync';
+	requestIds: string[];
+}
+
+export interface AnsweredMessage {
+	type: 'answered';
+	requestId: string;
+}
+
+export interface TimeoutMessage {
+	type: 'timeout';
+	requestId: string;
+}
+
+// The agent or MCP host cancelled the tool call that was waiting for this prompt
+export interface CancelledMessage {
+	type: 'cancelled';
+	requestId: string;
+}
+
+// Sent whenever the queued reply changes, and after the handshake while one is queued
+export interface QueuedMessage {
+	type: 'queued';
+	// Start of the queued reply, null when nothing is queued anymore
+	preview: string | null;
+	// Set when the queued reply was just used to answer this request
+	deliveredTo?: string;
+}
+
+// The submission with this id was applied (or had been already)
+export interface AckMessage {
+	type: 'ack';
+	submissionId: string;
+}
+
+// The submission with this id was turned down and will not reach the agent
+export interface RejectedMessage {
+	type: 'rejected';
+	submissionId: string;
+	code: ErrorCode;
+	message: string;
+}
+
+export type ErrorCode =
+	| 'invalid_message'
+	| 'unsupported_version'
+	| 'handshake_required'
+	| 'unknown_request'
+	| 'invalid_image'
+	| 'invalid_attachment';
+
+export interface ErrorMessage {
+	type: 'error';
+	code: ErrorCode;
+	message: string;
+	requestId?: string;
+}
+
+export type ServerMessage =
+	| WelcomeMessage
+	| SyncMessage
+	| PromptMessage
+	| AnsweredMessage
+	| TimeoutMessage
+	| CancelledMessage
+	| QueuedMessage
+	| AckMessage
+	| RejectedMessage
+	| ErrorMessage;
+
+export class ProtocolError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = 'ProtocolError';
+	}
+}
+
+export function parseClientMessage(raw: string): ClientMessage {
+	const message = parseFrame(raw);
+
+	switch (message.type) {
+		case 'hello':
+			expectNumber(message, 'protocolVersion');
+			expectPeerInfo(message.client, 'client');
+			expectStringArray(message, 'capabilities');
+			return message as unknown as HelloMessage;
+		case 'feedback':
+			expectString(message, 'requestId');
+			expectFeedbackResult(message.result);
+			expectOptional(message, 'submissionId', 'string');
+			return message as unknown as FeedbackMessage;
+		case 'activity':
+			expectString(message, 'requestId');
+			return message as unknown as ActivityMessage;
+		case 'queue':
+			expectFeedbackResult(message.result);
+			expectOptional(message, 'submissionId', 'string');
+			return message as unknown as QueueMessage;
+		case 'unqueue':
+			return message as unknown as UnqueueMessage;
+		default:
+			throw new ProtocolError(`Unknown client message type "${String(message.type)}".`);
+	}
+}
+
+export function parseServerMessage(raw: string): ServerMessage {
+	const message = parseFrame(raw);
+
+	switch (message.type) {
+		case 'welcome':
+			expectNumber(message, 'protocolVersion');
+			expectPeerInfo(message.server, 'server');
+			expectStringArray(message, 'capabilities');
+			return message as unknown as WelcomeMessage;
+		case 'sync':
+			expectStringArray(message, 'requestIds');
+			return message as unknown as SyncMessage;
+		case 'prompt':
+			expectString(message, 'requestId');
+			expectString(message, 'summary');
+			expectNumber(message, 'deadline');
+			if (message.choice !== undefined) expectChoiceRequest(message.choice);
+			if (message.form !== undefined) expectFormRequest(message.form);
+			return message as unknown as PromptMessage;
+		case 'answered':
+		case 'timeout':
+		case 'cancelled':
+			expectString(message, 'requestId');
+			return message as unknown as AnsweredMessage | TimeoutMessage | CancelledMessage;
+		case 'queued':
+			if (message.preview !== null) expectString(message, 'preview');
+			expectOptional(message, 'deliveredTo', 'string');
+			return message as unknown as QueuedMessage;
+		case 'ack':
+			expectString(message, 'submissionId');
+			return message as unknown as AckMessage;
+		case 'rejected':
+			expectString(message, 'submissionId');
+			expectString(message, 'code');
+			expectString(message, 'message');
+			return message as unknown as RejectedMessage;
+		case 'error':
+			expectString(message, 'code');
+			expectString(message, 'message');
+			expectOptional(message, 'requestId', 'string');
+			return message as unknown as ErrorMessage;
+		default:
+			throw new ProtocolError(`Unknown server message type "${String(message.type)}".`);
+	}
+}
+
+export function serializeMessage(message: ClientMessage | ServerMessage): string {
+	return JSON.stringify(message);
+}
+
+type Frame = Record<string, unknown>;
+
+function isObject(value: unknown): value is Frame {
+	return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function parseFrame(raw: string): Frame {
+	let message: unknown;
+	try {
+		message = JSON.parse(raw);
+	} catch {
+		throw new ProtocolError('Message is not valid JSON.');
+	}
+
+	if (!isObject(message) || typeof message.type !== 'string') {
+		throw new ProtocolError('Message must be a JSON object with a string "type".');
+	}
+	return message;
+}
+
+function expectObject(value: unknown, path: string): Frame {
+	if (!isObject(value)) {
+		throw new ProtocolError(`"${path}" must be an object.`);
+	}
+	return value;
+}
+
+function expectString(frame: Frame, key: string, path = key): void {
+	if (typeof frame[key] !== 'string') {
+		throw new ProtocolError(`"${path}" must be a string.`);
+	}
+}
+
+function expectNumber(frame: Frame, key: string, path = key): void {
+	if (typeof frame[key] !== 'number' || !Number.isFinite(frame[key])) {
+		throw new ProtocolError(`"${path}" must be a number.`);
+	}
+}
+
+function expectStringArray(frame: Frame, key: string, path = key): void {
+	const value = frame[key];
+	if (!Array.isArray(value) || value.some(item => typeof item !== 'string')) {
+		throw new ProtocolError(`"${path}" must be an array of strings.`);
+	}
+}
+
+function expectOptional(
+	frame: Frame,
+	key: string,
+	type: 'string' | 'number' | 'boolean',
+	path = key
+): void {
+	const actual = typeof frame[key];
+	if (actual !== 'undefined' && actual !== type) {
+		throw new ProtocolError(`"${path}" must be a ${type} when present.`);
+	}
+}
+
+function expectPeerInfo(value: unknown, path: string): void {
+	const info = expectObject(value, path);
+	expectString(info, 'name', `${path}.name`);
+	expectString(info, 'version', `${path}.version`);
+}
+
+function expectFeedbackResult(value: unknown): void {
+	const result = expectObject(value, 'result');
+	expectString(result, 'interactive_feedback', 'result.interactive_feedback');
+
+	if (result.images !== undefined) {
+		if (!Array.isArray(result.images)) {
+			throw new ProtocolError('"result.images" must be an array.');
+		}
+		result.images.forEach((image, index) => {
+			const path = `result.images[${index}]`;
+			const frame = expectObject(image, path);
+			expectString(frame, 'name', `${path}.name`);
+			expectString(frame, 'data', `${path}.data`);
+			expectOptional(frame, 'mimeType', 'string', `${path}.mimeType`);
+		});
+	}
+
+	if (result.attachments !== undefined) {
+		if (!Array.isArray(result.attachments)) {
+			throw new ProtocolError('"result.attachments" must be an array.');
+		}
+		result.attachments.forEach((attachment, index) => {
+			const path = `result.attachments[${index}]`;
+			const frame = expectObject(attachment, path);
+			expectString(frame, 'name', `${path}.name`);
+			expectString(frame, 'mimeType', `${path}.mimeType`);
+			expectString(frame, 'content', `${path}.content`);
+		});
+	}
+
+	if (result.choice !== undefined) {
+		const choice = expectObject(result.choice, 'result.choice');
+		expectStringArray(choice, 'selected', 'result.choice.selected');
+		expectOptional(choice, 'other', 'string', 'result.choice.other');
+	}
+
+	if (result.form !== undefined) {
+		const form = expectObject(result.form, 'result.form');
+		if (form.action !== 'accept' && form.action !== 'decline') {
+			throw new ProtocolError('"result.form.action" must be "accept" or "decline".');
+		}
+		if (form.values !== undefined) {
+			const values = expectObject(form.values, 'result.form.values');
+			for (const [name, value] of Object.entries(values)) {
+				if (!['string', 'number', 'boolean'].includes(typeof value)) {
+					throw new ProtocolError(
+						`"result.form.values.${name}" must be a string, number or boolean.`
+					);
+				}
+			}
+		}
+	}
+}
+
+function expectChoiceRequest(value: unknown): void {
+	const choice = expectObject(value, 'choice');
+	expectString(choice, 'question', 'choice.question');
+	expectOptional(choice, 'multiSelect', 'boolean', 'choice.multiSelect');
+	expectOptional(choice, 'allowOther', 'boolean', 'choice.allowOther');
+
+	if (!Array.isArray(choice.options) || choice.options.length === 0) {
+		throw new ProtocolError('"choice.options" must be a non-empty array.');
+	}
+	choice.options.forEach((option, index) => {
+		const path = `choice.options[${index}]`;
+		const frame = expectObject(option, path);
+		expectString(frame, 'id', `${path}.id`);
+		expectString(frame, 'label', `${path}.label`);
+		expectOptional(frame, 'description', 'string', `${path}.description`);
+	});
+}
+
+function expectFormRequest(value: unknown): void {
+	const form = expectObject(value, 'form');
+	expectString(form, 'message', 'form.message');
+
+	if (!Array.isArray(form.fields) || form.fields.length === 0) {
+		throw new ProtocolError('"form.fields" must be a non-empty array.');
+	}
+	form.fields.forEach((field, index) => {
+		const path = `form.fields[${index}]`;
+		const frame = expectObject(field, path);
+		expectString(frame, 'name', `${path}.name`);
+		if (!['string', 'number', 'integer', 'boolean'].includes(String(frame.type))) {
+			throw new ProtocolError(`"${path}.type" must be "string", "number", "integer" or "boolean".`);
+		}
+		if (frame.enum !== undefined) expectStringArray(frame, 'enum', `${path}.enum`);
+	});
+}
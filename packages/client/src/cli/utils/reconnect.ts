@@ -0,0 +1,43 @@
+import { type FSWatcher, watch } from 'node:fs';
+
+// The first retry comes after about a second, the wait doubles up to half a minute
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 30000;
+
+// After this many failed attempts in a row the server is reported as offline
+export const OFFLINE_AFTER_ATTEMPTS = 3;
+
+/**
+ * Delay before reconnect attempt `attempt` (counted from 1): exponential backoff with
+ * "equal jitter", so terminals that lost the same server do not all dial it at once.
+ */
+export function getReconnectDelay(attempt: number, random: () => number = Math.random): number {
+	const ceiling = Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** Math.max(0, attempt - 1));
+	return Math.round(ceiling / 2 + random() * (ceiling / 2));
+}
+
+/**
+ * Calls onChange whenever one of the named files in the directory is created, rewritten or
+ * removed. The directory is watched rather than the files, since a restarted server replaces
+ * them. Returns a function that stops watching, or null when the platform cannot watch.
+ */
+export function watchFiles(
+	directory: string,
+	fileNames: string[],
+	onChange: () => void
+): (() => void) | null {
+	let watcher: FSWatcher;
+	try {
+		watcher = watch(directory, (_event, fileName) => {
+			if (fileName && fileNames.includes(fileName.toString())) {
+				onChange();
+			}
+		});
+	} catch {
+		return null;
+	}
+
+	// Watching is only a shortcut, the backoff timer keeps retrying without it
+	watcher.on('error', () => watcher.close());
+	return () => watcher.close();
+}
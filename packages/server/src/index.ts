@@ -1,17 +1,38 @@
 #!/usr/bin/env node
-import { FastMCP } from 'fastmcp';
+import { type Context, FastMCP, type Progress, UserError } from 'fastmcp';
 import { z } from 'zod';
+import { getToolCallSignal, trackToolCallSignals } from './lib/cancellation.js';
 import {
+	type ChoiceOption,
+	DEFAULT_HOST,
+	type FeedbackProgress,
+	type FeedbackResult,
+	FeedbackTimeoutError,
+	type ListenOptions,
+	getDefaultSocketPath,
 	getInteractiveFeedback,
+	pollFeedback,
+	requestFeedback,
 	startFeedbackServer,
 	stopFeedbackServer,
 } from './lib/feedbackServer.js';
+import { checkFormFields, validateFormValues } from './lib/form.js';
+import { findHistoryRecord, readHistory } from './lib/history.js';
+import type { FormField } from './lib/protocol.js';
 
 const server = new FastMCP({
 	name: 'mcp-feedback-server',
 	version: '1.3.9',
 });
 
+// setTimeout overflows past about 24.8 days and then fires right away, so timeouts are capped at a day
+const MAX_TIMEOUT_SECONDS = 24 * 60 * 60;
+
+// Lets a cancelled tool call withdraw its prompt from the terminal instead of waiting for the timeout
+server.on('connect', ({ session }) => {
+	trackToolCallSignals(session);
+});
+
 // Add the interactive feedback tool
 server.addTool({
 	name: 'interactive_feedback',
@@ -26,18 +47,33 @@ USAGE RULES:
 
 Args:
     summary: Summary of AI work completed for user review
+    timeout_seconds: Optional timeout for this call in seconds (overrides MCP_FEEDBACK_TIMEOUT)
 
 Environment Variables:
     MCP_FEEDBACK_TIMEOUT: Timeout in seconds for waiting user feedback (default: 600 seconds = 10 minutes)
+    MCP_FEEDBACK_TIMEOUT_POLICY: What to do when the timeout expires: "error" (default) or "reply"
+    MCP_FEEDBACK_TIMEOUT_REPLY: Reply returned on timeout when the policy is "reply"
     MCP_PROJECT_DIR: Project directory path for context
 
 Returns:
     list: List containing TextContent and MCPImage objects representing user feedback`,
 	parameters: z.object({
 		summary: z.string().optional().describe('Summary of AI work completed for user review'),
+		timeout_seconds: z
+			.number()
+			.int()
+			.positive()
+			.max(MAX_TIMEOUT_SECONDS)
+			.optional()
+			.describe(
+				`Timeout for this call in seconds, at most ${MAX_TIMEOUT_SECONDS} (overrides MCP_FEEDBACK_TIMEOUT)`
+			),
 	}),
-	execute: async (args: { summary?: string }, { log }: { log: any }) => {
-		const { summary = 'I have completed the task you requested.' } = args;
+	execute: async (
+		args: { summary?: string; timeout_seconds?: number },
+		{ log, reportProgress }: { log: ToolLog; reportProgress: ReportProgress }
+	) => {
+		const { summary = 'I have completed the task you requested.', timeout_seconds } = args;
 
 		// Use the MCP_PROJECT_DIR environment variable directly
 		const projectDir = process.env.MCP_PROJECT_DIR;
@@ -45,12 +81,14 @@ Returns:
 			log.info(`Using project directory from environment: ${projectDir}`);
 		}
 
-		const timeoutSeconds = process.env.MCP_FEEDBACK_TIMEOUT
-			? Number.parseInt(process.env.MCP_FEEDBACK_TIMEOUT, 10)
-			: 600;
+		const timeoutSeconds = getTimeoutSeconds(timeout_seconds);
+		if (timeoutSeconds === null) {
+			return INVALID_TIMEOUT_MESSAGE;
+		}
 
-		if (Number.isNaN(timeoutSeconds) || timeoutSeconds <= 0) {
-			return 'Error: Invalid MCP_FEEDBACK_TIMEOUT environment variable. Must be a positive number.';
+		const timeoutPolicy = getTimeoutPolicy();
+		if (timeoutPolicy === null) {
+			return INVALID_TIMEOUT_POLICY_MESSAGE;
 		}
 
 		const timeoutMs = timeoutSeconds * 1000;
@@ -64,81 +102,536 @@ Returns:
 			const feedbackResult = await getInteractiveFeedback({
 				summary: summary,
 				timeout: timeoutMs,
+				onProgress: createProgressReporter(reportProgress, log, timeoutSeconds),
+				signal: getToolCallSignal(),
 			});
 
 			log.info('Feedback process completed successfully.');
 
-			const responseContent: any[] = [];
+			return toFeedbackResponse(feedbackResult);
+		} catch (error) {
+			if (error instanceof FeedbackTimeoutError && timeoutPolicy.policy === 'reply') {
+				log.info('Feedback timed out, returning the configured timeout reply.');
+				return timeoutPolicy.reply;
+			}
 
-			if (feedbackResult.interactive_feedback?.trim()) {
-				let feedbackText = feedbackResult.interactive_feedback;
-				if (feedbackResult.images && feedbackResult.images.length > 0) {
-					const imageNames = feedbackResult.images.map(img => img.name).join(', ');
-					feedbackText += `\n\n(Attached images: ${imageNames})`;
-				}
-				responseContent.push({
-					type: 'text',
-					text: feedbackText,
-				});
+			log.error('Feedback process failed:', {
+				error: error instanceof Error ? error.message : String(error),
+			});
+
+			let errorMessage = 'An unknown error occurred during feedback collection.';
+			if (error instanceof Error) {
+				errorMessage = `Error during feedback collection: ${error.message}`;
 			}
 
-			if (feedbackResult.images && feedbackResult.images.length > 0) {
-				for (const img of feedbackResult.images) {
-					const mimeType = getMimeTypeFromFilename(img.name);
-					responseContent.push({
-						type: 'image',
-						data: img.data,
-						mimeType: mimeType,
-					});
+			return errorMessage;
+		}
+	},
+});
+
+// Keeps a single poll_feedback call well below the tool-call timeout of strict hosts
+const MAX_POLL_WAIT_SECONDS = 30;
+
+server.addTool({
+	name: 'request_feedback',
+	description: `Non-blocking variant of interactive_feedback for hosts that cancel long tool calls.
+
+Shows the summary to the user exactly like interactive_feedback, but returns immediately with a
+ticket id. Call poll_feedback with that ticket id until it returns the user's reply.
+
+Args:
+    summary: Summary of AI work completed for user review
+    timeout_seconds: Optional timeout for the request in seconds (overrides MCP_FEEDBACK_TIMEOUT)
+
+Returns:
+    A JSON object: {"ticket_id": "<id>", "status": "pending", "timeout_seconds": <seconds>}`,
+	parameters: z.object({
+		summary: z.string().optional().describe('Summary of AI work completed for user review'),
+		timeout_seconds: z
+			.number()
+			.int()
+			.positive()
+			.max(MAX_TIMEOUT_SECONDS)
+			.optional()
+			.describe(
+				`Timeout for this request in seconds, at most ${MAX_TIMEOUT_SECONDS} (overrides MCP_FEEDBACK_TIMEOUT)`
+			),
+	}),
+	execute: async (
+		args: { summary?: string; timeout_seconds?: number },
+		{ log }: { log: ToolLog }
+	) => {
+		const { summary = 'I have completed the task you requested.', timeout_seconds } = args;
+
+		const timeoutSeconds = getTimeoutSeconds(timeout_seconds);
+		if (timeoutSeconds === null) {
+			return INVALID_TIMEOUT_MESSAGE;
+		}
+
+		try {
+			const { id } = requestFeedback({ summary, timeout: timeoutSeconds * 1000 });
+			log.info('Feedback requested.', { ticket_id: id, timeout_seconds: timeoutSeconds });
+
+			return JSON.stringify({ ticket_id: id, status: 'pending', timeout_seconds: timeoutSeconds });
+		} catch (error) {
+			if (error instanceof Error) {
+				return `Error during feedback request: ${error.message}`;
+			}
+			return 'An unknown error occurred during feedback request.';
+		}
+	},
+});
+
+server.addTool({
+	name: 'poll_feedback',
+	description: `Check on a ticket returned by request_feedback.
+
+While the user has not answered yet this returns {"status": "pending", ...}; call it again later.
+Once the user answers it returns the feedback in the same form as interactive_feedback. A finished
+ticket can only be collected once.
+
+Args:
+    ticket_id: The ticket id returned by request_feedback
+    wait_seconds: Wait up to this many seconds for the answer before reporting "pending" (default: 0, max: ${MAX_POLL_WAIT_SECONDS})
+
+Returns:
+    {"status": "pending", "ticket_id": "<id>", "remaining_seconds": <seconds>}, or the user's feedback`,
+	parameters: z.object({
+		ticket_id: z.string().min(1).describe('The ticket id returned by request_feedback'),
+		wait_seconds: z
+			.number()
+			.int()
+			.min(0)
+			.max(MAX_POLL_WAIT_SECONDS)
+			.optional()
+			.describe('Wait up to this many seconds for the answer before reporting "pending"'),
+	}),
+	execute: async (
+		args: { ticket_id: string; wait_seconds?: number },
+		{ log }: { log: ToolLog }
+	) => {
+		const { ticket_id, wait_seconds = 0 } = args;
+
+		const timeoutPolicy = getTimeoutPolicy();
+		if (timeoutPolicy === null) {
+			return INVALID_TIMEOUT_POLICY_MESSAGE;
+		}
+
+		let ticket = pollFeedback(ticket_id);
+		if (ticket?.status === 'pending' && wait_seconds > 0) {
+			let timer: NodeJS.Timeout | undefined;
+			await Promise.race([
+				ticket.result.catch(() => undefined),
+				new Promise(resolve => {
+					timer = setTimeout(resolve, wait_seconds * 1000);
+				}),
+			]);
+			clearTimeout(timer);
+			ticket = pollFeedback(ticket_id);
+		}
+
+		if (!ticket) {
+			return `Error: Unknown or expired ticket ${ticket_id}. Finished tickets can only be collected once.`;
+		}
+
+		switch (ticket.status) {
+			case 'pending':
+				return JSON.stringify({
+					status: 'pending',
+					ticket_id,
+					remaining_seconds: Math.max(0, Math.ceil((ticket.deadline - Date.now()) / 1000)),
+				});
+			case 'answered':
+				log.info('Feedback ticket answered.', { ticket_id });
+				return toFeedbackResponse(ticket.result);
+			case 'failed':
+				if (ticket.error instanceof FeedbackTimeoutError && timeoutPolicy.policy === 'reply') {
+					log.info('Feedback ticket timed out, returning the configured timeout reply.');
+					return timeoutPolicy.reply;
 				}
+				log.error('Feedback ticket failed:', { ticket_id, error: ticket.error.message });
+				return `Error during feedback collection: ${ticket.error.message}`;
+		}
+	},
+});
+
+server.addTool({
+	name: 'ask_user_choice',
+	description: `Ask the user to pick from a list of options in the feedback terminal.
+
+Use this instead of interactive_feedback when the answer is one (or several) of a known set
+of choices, e.g. "Should I use approach A, B or C?". The user picks with arrow keys or number keys.
+
+Args:
+    question: The question to show above the options
+    options: Options to choose from, each with a unique id and a label (and optional description)
+    multi_select: Allow selecting more than one option (default: false)
+    allow_other: Offer an extra "Other" entry where the user can type a free-text answer (default: false)
+
+Returns:
+    A JSON object: {"selected": ["<option id>", ...], "other": "<free text>" | null}`,
+	parameters: z.object({
+		question: z.string().min(1).describe('The question to show above the options'),
+		options: z
+			.array(
+				z.object({
+					id: z.string().min(1).describe('Stable identifier returned when this option is chosen'),
+					label: z.string().min(1).describe('Text shown to the user'),
+					description: z
+						.string()
+						.optional()
+						.describe('Optional extra detail shown under the label'),
+				})
+			)
+			.min(1)
+			.describe('Options to choose from'),
+		multi_select: z.boolean().optional().describe('Allow selecting more than one option'),
+		allow_other: z.boolean().optional().describe('Offer a free-text "Other" answer'),
+	}),
+	execute: async (
+		args: {
+			question: string;
+			options: ChoiceOption[];
+			multi_select?: boolean;
+			allow_other?: boolean;
+		},
+		{ log, reportProgress }: { log: ToolLog; reportProgress: ReportProgress }
+	) => {
+		const { question, options, multi_select = false, allow_other = false } = args;
+
+		const optionIds = new Set(options.map(option => option.id));
+		if (optionIds.size !== options.length) {
+			return 'Error: Option ids must be unique.';
+		}
+
+		const timeoutSeconds = getTimeoutSeconds();
+		if (timeoutSeconds === null) {
+			return INVALID_TIMEOUT_MESSAGE;
+		}
+
+		log.info('Asking user to choose an option...', {
+			question,
+			option_count: options.length,
+			timeout_seconds: timeoutSeconds,
+		});
+
+		try {
+			const feedbackResult = await getInteractiveFeedback({
+				summary: question,
+				timeout: timeoutSeconds * 1000,
+				onProgress: createProgressReporter(reportProgress, log, timeoutSeconds),
+				signal: getToolCallSignal(),
+				choice: {
+					question,
+					options,
+					multiSelect: multi_select,
+					allowOther: allow_other,
+				},
+			});
+
+			const selected = (feedbackResult.choice?.selected ?? []).filter(id => optionIds.has(id));
+			const other = allow_other ? feedbackResult.choice?.other?.trim() || null : null;
+
+			log.info('Choice received.', { selected, has_other: other !== null });
+
+			return JSON.stringify({
+				selected: multi_select ? selected : selected.slice(0, 1),
+				other,
+			});
+		} catch (error) {
+			log.error('Choice process failed:', {
+				error: error instanceof Error ? error.message : String(error),
+			});
+
+			if (error instanceof Error) {
+				return `Error during choice collection: ${error.message}`;
 			}
+			return 'An unknown error occurred during choice collection.';
+		}
+	},
+});
+
+server.addTool({
+	name: 'ask_user_form',
+	description: `Ask the user to fill in a small form in the feedback terminal.
+
+Use this when you need several structured values at once, e.g. a branch name, a yes/no flag and
+one of a few environments. Fields are described with a JSON-schema-like list; the terminal renders
+text inputs, number inputs, checkboxes and selects, and validates the answers before submitting.
 
-			if (responseContent.length === 0) {
-				return 'User did not provide any feedback.';
+Args:
+    message: Explanation shown above the form
+    fields: List of fields. Each field has:
+        name: Key used in the returned values
+        type: "string" | "number" | "integer" | "boolean"
+        title: Label shown to the user (defaults to name)
+        description: Help text shown under the field
+        required: Whether a value must be given (default: false)
+        default: Initial value
+        enum: Allowed values for a "string" field, rendered as a select
+        minimum / maximum: Bounds for "number" and "integer" fields
+        pattern: Regular expression a "string" value must match
+
+Returns:
+    A JSON object: {"action": "accept", "values": {...}} or {"action": "decline"} if the user declined`,
+	parameters: z.object({
+		message: z.string().min(1).describe('Explanation shown above the form'),
+		fields: z
+			.array(
+				z.object({
+					name: z.string().min(1).describe('Key used in the returned values'),
+					type: z.enum(['string', 'number', 'integer', 'boolean']).describe('Value type'),
+					title: z.string().optional().describe('Label shown to the user'),
+					description: z.string().optional().describe('Help text shown under the field'),
+					required: z.boolean().optional().describe('Whether a value must be given'),
+					default: z.union([z.string(), z.number(), z.boolean()]).optional(),
+					enum: z.array(z.string()).optional().describe('Allowed values, rendered as a select'),
+					minimum: z.number().optional(),
+					maximum: z.number().optional(),
+					pattern: z.string().optional().describe('Regular expression for string values'),
+				})
+			)
+			.min(1)
+			.describe('Fields to fill in'),
+	}),
+	execute: async (
+		args: { message: string; fields: FormField[] },
+		{ log, reportProgress }: { log: ToolLog; reportProgress: ReportProgress }
+	) => {
+		const { message, fields } = args;
+
+		const fieldError = checkFormFields(fields);
+		if (fieldError) {
+			return `Error: Invalid form fields. ${fieldError}`;
+		}
+
+		const timeoutSeconds = getTimeoutSeconds();
+		if (timeoutSeconds === null) {
+			return INVALID_TIMEOUT_MESSAGE;
+		}
+
+		log.info('Asking user to fill in a form...', {
+			message,
+			field_count: fields.length,
+			timeout_seconds: timeoutSeconds,
+		});
+
+		try {
+			const feedbackResult = await getInteractiveFeedback({
+				summary: message,
+				timeout: timeoutSeconds * 1000,
+				form: { message, fields },
+				onProgress: createProgressReporter(reportProgress, log, timeoutSeconds),
+				signal: getToolCallSignal(),
+			});
+
+			if (feedbackResult.form?.action !== 'accept') {
+				log.info('User declined the form.');
+				return JSON.stringify({ action: 'decline' });
 			}
 
-			return {
-				content: responseContent,
-			};
+			const { values, errors } = validateFormValues(fields, feedbackResult.form.values ?? {});
+			if (Object.keys(errors).length > 0) {
+				log.error('Form values failed validation.', { errors });
+				const details = Object.entries(errors)
+					.map(([name, error]) => `${name}: ${error}`)
+					.join('; ');
+				return `Error: The submitted form values are invalid. ${details}`;
+			}
+
+			log.info('Form submitted.');
+
+			return JSON.stringify({ action: 'accept', values });
 		} catch (error) {
-			log.error('Feedback process failed:', {
+			log.error('Form process failed:', {
 				error: error instanceof Error ? error.message : String(error),
 			});
 
-			let errorMessage = 'An unknown error occurred during feedback collection.';
 			if (error instanceof Error) {
-				errorMessage = `Error during feedback collection: ${error.message}`;
+				return `Error during form collection: ${error.message}`;
 			}
+			return 'An unknown error occurred during form collection.';
+		}
+	},
+});
 
-			return errorMessage;
+const HISTORY_RESOURCE_LIMIT = 50;
+
+// Past feedback rounds on this project, so a new chat can pick up what the user already said
+server.addResource({
+	uri: 'feedback://history',
+	name: 'Feedback history',
+	description: `The last ${HISTORY_RESOURCE_LIMIT} feedback rounds on this project (summary, reply, outcome and timestamps), oldest first`,
+	mimeType: 'application/json',
+	async load() {
+		return {
+			text: JSON.stringify(readHistory(HISTORY_RESOURCE_LIMIT), null, 2),
+		};
+	},
+});
+
+server.addResourceTemplate({
+	uriTemplate: 'feedback://history/{requestId}',
+	name: 'Feedback history entry',
+	description: 'A single feedback round by request id',
+	mimeType: 'application/json',
+	arguments: [
+		{
+			name: 'requestId',
+			description: 'Request id as listed in feedback://history',
+			required: true,
+		},
+	],
+	async load({ requestId }) {
+		const record = findHistoryRecord(requestId);
+		if (!record) {
+			throw new UserError(`No feedback history entry with request id ${requestId}.`);
 		}
+		return {
+			text: JSON.stringify(record, null, 2),
+		};
 	},
 });
 
-function getMimeTypeFromFilename(filename: string): string {
-	const extension = filename.toLowerCase().split('.').pop();
-	switch (extension) {
-		case 'png':
-			return 'image/png';
-		case 'jpg':
-		case 'jpeg':
-			return 'image/jpeg';
-		case 'gif':
-			return 'image/gif';
-		case 'webp':
-			return 'image/webp';
-		case 'svg':
-			return 'image/svg+xml';
-		case 'bmp':
-			return 'image/bmp';
+const INVALID_TIMEOUT_MESSAGE = `Error: Invalid MCP_FEEDBACK_TIMEOUT environment variable. Must be a positive number of seconds, at most ${MAX_TIMEOUT_SECONDS}.`;
+
+const INVALID_TIMEOUT_POLICY_MESSAGE =
+	'Error: Invalid MCP_FEEDBACK_TIMEOUT_POLICY environment variable. Must be "error" or "reply".';
+
+const DEFAULT_TIMEOUT_REPLY =
+	'The user did not respond in time. Proceed with your best judgement and ask again if needed.';
+
+type TimeoutPolicy = { policy: 'error' } | { policy: 'reply'; reply: string };
+
+function getTimeoutSeconds(override?: number): number | null {
+	if (override !== undefined) {
+		return override;
+	}
+
+	const timeoutSeconds = process.env.MCP_FEEDBACK_TIMEOUT
+		? Number.parseInt(process.env.MCP_FEEDBACK_TIMEOUT, 10)
+		: 600;
+
+	if (Number.isNaN(timeoutSeconds) || timeoutSeconds <= 0 || timeoutSeconds > MAX_TIMEOUT_SECONDS) {
+		return null;
+	}
+	return timeoutSeconds;
+}
+
+function getTimeoutPolicy(): TimeoutPolicy | null {
+	const policy = process.env.MCP_FEEDBACK_TIMEOUT_POLICY?.trim().toLowerCase() || 'error';
+
+	switch (policy) {
+		case 'error':
+			return { policy: 'error' };
+		case 'reply':
+			return {
+				policy: 'reply',
+				reply: process.env.MCP_FEEDBACK_TIMEOUT_REPLY?.trim() || DEFAULT_TIMEOUT_REPLY,
+			};
 		default:
-			return 'image/png';
+			return null;
 	}
 }
 
-function parseArgs(): { port: number } {
+// The server has no authentication, so sessions carry no auth data
+type ToolLog = Context<undefined>['log'];
+type ReportProgress = Context<undefined>['reportProgress'];
+
+// MCP progress notifications carry an optional message since the 2025-03-26 spec.
+// fastmcp spreads the object into the notification params, its Progress type just lacks the field.
+type ProgressUpdate = Progress & { message?: string };
+
+// Keeps the host from treating a long wait for the user as a hung tool call
+function createProgressReporter(
+	reportProgress: ReportProgress,
+	log: ToolLog,
+	timeoutSeconds: number
+) {
+	return ({ elapsedMs, connectedClients, typing }: FeedbackProgress) => {
+		const message = typing
+			? 'The user is typing a reply...'
+			: connectedClients > 0
+				? `Waiting for the user (${connectedClients} terminal(s) connected)...`
+				: 'Waiting for a feedback terminal to connect...';
+
+		const progress: ProgressUpdate = { progress: elapsedMs / 1000, total: timeoutSeconds, message };
+		void reportProgress(progress);
+		log.debug(message, {
+			elapsed_seconds: Math.round(elapsedMs / 1000),
+			connected_clients: connectedClients,
+		});
+	};
+}
+
+// Turns the user's reply into the tool result shared by interactive_feedback and poll_feedback
+function toFeedbackResponse(feedbackResult: FeedbackResult) {
+	const responseContent: any[] = [];
+
+	if (feedbackResult.interactive_feedback?.trim()) {
+		let feedbackText = feedbackResult.interactive_feedback;
+		if (feedbackResult.images && feedbackResult.images.length > 0) {
+			const imageNames = feedbackResult.images.map(img => img.name).join(', ');
+			feedbackText += `\n\n(Attached images: ${imageNames})`;
+		}
+		if (feedbackResult.attachments && feedbackResult.attachments.length > 0) {
+			const fileNames = feedbackResult.attachments.map(file => file.name).join(', ');
+			feedbackText += `\n\n(Attached files: ${fileNames})`;
+		}
+		responseContent.push({
+			type: 'text',
+			text: feedbackText,
+		});
+	}
+
+	if (feedbackResult.images && feedbackResult.images.length > 0) {
+		for (const img of feedbackResult.images) {
+			responseContent.push({
+				type: 'image',
+				data: img.data,
+				// Sniffed from the image bytes when the feedback was received
+				mimeType: img.mimeType ?? 'image/png',
+			});
+		}
+	}
+
+	// Files go in as embedded resources so the agent sees them apart from what the user wrote
+	for (const file of feedbackResult.attachments ?? []) {
+		responseContent.push({
+			type: 'resource',
+			resource: {
+				uri: `feedback://attachment/${encodeURIComponent(file.name)}`,
+				mimeType: file.mimeType,
+				text: file.content,
+			},
+		});
+	}
+
+	if (responseContent.length === 0) {
+		return 'User did not provide any feedback.';
+	}
+
+	return {
+		content: responseContent,
+	};
+}
+
+// "1"/"true" (or --socket without a value) selects the default socket path
+function resolveSocketOption(value: string | undefined): string | undefined {
+	if (!value || value === '0' || value.toLowerCase() === 'false') {
+		return undefined;
+	}
+	if (value === '1' || value.toLowerCase() === 'true') {
+		return getDefaultSocketPath();
+	}
+	return value;
+}
+
+function parseArgs(): { port: number; listen: ListenOptions } {
 	const args = process.argv.slice(2);
 	let port = 9543;
+	let host = process.env.MCP_FEEDBACK_HOST;
+	let socket = process.env.MCP_FEEDBACK_SOCKET;
 
 	for (let i = 0; i < args.length; i++) {
 		if (args[i] === '--port' && i + 1 < args.length) {
@@ -149,17 +642,28 @@ function parseArgs(): { port: number } {
 				console.error(`[Main] Invalid port: ${args[i + 1]}. Using default port ${port}.`);
 			}
 		}
+		if (args[i] === '--host' && i + 1 < args.length) {
+			host = args[i + 1];
+		}
+		if (args[i] === '--socket') {
+			const next = args[i + 1];
+			socket = next && !next.startsWith('--') ? next : 'true';
+		}
 	}
 
-	return { port };
+	return { port, listen: { host, socketPath: resolveSocketOption(socket) } };
 }
 
 async function startServers() {
 	try {
-		const { port } = parseArgs();
-		console.error(`[Main] Starting feedback server on port ${port}...`);
+		const { port, listen } = parseArgs();
+		console.error(
+			listen.socketPath
+				? `[Main] Starting feedback server on socket ${listen.socketPath}...`
+				: `[Main] Starting feedback server on ${listen.host || DEFAULT_HOST}:${port}...`
+		);
 
-		await startFeedbackServer(port);
+		await startFeedbackServer(port, listen);
 
 		server.start({
 			transportType: 'stdio',
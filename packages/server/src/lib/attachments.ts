@@ -0,0 +1,48 @@
+import type { AttachmentData } from './protocol.js';
+
+export type AttachmentValidation = { ok: true } | { ok: false; error: string };
+
+// Same limit as the terminal's /attach, a text file an agent can sensibly read
+const MAX_ATTACHMENT_BYTES = 1024 * 1024;
+const MAX_TOTAL_ATTACHMENT_BYTES = 5 * 1024 * 1024;
+const MAX_ATTACHMENTS = 20;
+
+function formatSize(bytes: number): string {
+	if (bytes < 1024) return `${bytes} bytes`;
+	if (bytes < 1024 * 1024) return `${Math.ceil(bytes / 1024)} KB`;
+	return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * Checks the attached files before they are handed to the agent. The terminal checks the
+ * size when reading a file, but any client can skip that, so the limits are enforced here.
+ */
+export function validateAttachments(attachments: AttachmentData[]): AttachmentValidation {
+	if (attachments.length > MAX_ATTACHMENTS) {
+		return {
+			ok: false,
+			error: `${attachments.length} files are attached, the limit is ${MAX_ATTACHMENTS}.`,
+		};
+	}
+
+	let totalBytes = 0;
+	for (const [index, attachment] of attachments.entries()) {
+		const bytes = Buffer.byteLength(attachment.content, 'utf8');
+		if (bytes > MAX_ATTACHMENT_BYTES) {
+			return {
+				ok: false,
+				error: `File ${index + 1} (${attachment.name}) is ${formatSize(bytes)}, the limit per file is ${formatSize(MAX_ATTACHMENT_BYTES)}.`,
+			};
+		}
+
+		totalBytes += bytes;
+		if (totalBytes > MAX_TOTAL_ATTACHMENT_BYTES) {
+			return {
+				ok: false,
+				error: `The attached files add up to more than ${formatSize(MAX_TOTAL_ATTACHMENT_BYTES)}. Remove some and try again.`,
+			};
+		}
+	}
+
+	return { ok: true };
+}
@@ -0,0 +1,76 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import type { FastMCPSession } from 'fastmcp';
+
+type Transport = NonNullable<FastMCPSession['server']['transport']>;
+
+// The fields of a JSON-RPC message this module looks at
+interface MessageFields {
+	id?: string | number;
+	method?: string;
+	params?: { requestId?: string | number };
+}
+
+const toolCallSignals = new AsyncLocalStorage<AbortSignal>();
+let warnedUntracked = false;
+
+/**
+ * fastmcp 3 does not pass the MCP request's abort signal on to tools. This watches the
+ * session's transport instead: every tools/call request is handled with its own signal in
+ * async context, aborted when the client sends "notifications/cancelled" for that request.
+ * The signal can be read inside execute() through getToolCallSignal(). Only the SDK's public
+ * Transport interface is used. Returns false, and logs, when the session has no transport.
+ */
+export function trackToolCallSignals(session: FastMCPSession): boolean {
+	const transport = session.server.transport;
+	const receive = transport?.onmessage;
+	if (!transport || !receive) {
+		console.error(
+			'[Cancellation] The session has no transport to watch, cancelled calls will wait for their timeout.'
+		);
+		return false;
+	}
+
+	const toolCalls = new Map<string | number, AbortController>();
+
+	const onmessage: Transport['onmessage'] = (message, extra) => {
+		const { id, method, params } = message as MessageFields;
+
+		if (method === 'tools/call' && id !== undefined) {
+			const controller = new AbortController();
+			toolCalls.set(id, controller);
+			// The SDK dispatches the request from here, so the handler and execute() inherit the signal
+			toolCallSignals.run(controller.signal, () => receive.call(transport, message, extra));
+			return;
+		}
+
+		if (method === 'notifications/cancelled' && params?.requestId !== undefined) {
+			toolCalls.get(params.requestId)?.abort();
+			toolCalls.delete(params.requestId);
+		}
+		receive.call(transport, message, extra);
+	};
+	transport.onmessage = onmessage;
+
+	// The response ends the call, after that the client may reuse its id
+	const send = transport.send.bind(transport);
+	transport.send = (message, options) => {
+		const { id, method } = message as MessageFields;
+		if (id !== undefined && method === undefined) {
+			toolCalls.delete(id);
+		}
+		return send(message, options);
+	};
+
+	return true;
+}
+
+export function getToolCallSignal(): AbortSignal | undefined {
+	const signal = toolCallSignals.getStore();
+	if (!signal && !warnedUntracked) {
+		warnedUntracked = true;
+		console.error(
+			'[Cancellation] A tool call arrived without a signal, cancelled calls will wait for their timeout.'
+		);
+	}
+	return signal;
+}
@@ -1,53 +1,218 @@
-import { existsSync, readFileSync, unlinkSync, writeFileSync } from 'node:fs';
-import { type Server as HttpServer, createServer } from 'node:http';
-import { join } from 'node:path';
+import { createHash, randomBytes, randomUUID, timingSafeEqual } from 'node:crypto';
+import { chmodSync, existsSync, readFileSync, unlinkSync, writeFileSync } from 'node:fs';
+import { type Server as HttpServer, type IncomingMessage, createServer } from 'node:http';
+import { connect } from 'node:net';
+import { join, resolve as resolvePath } from 'node:path';
 import { WebSocket, WebSocketServer } from 'ws';
+import { validateAttachments } from './attachments.js';
+import { type HistoryOutcome, appendHistoryRecord, createHistoryRecord } from './history.js';
+import { getImageLimits, validateImages } from './images.js';
+import { getProjectDirectory, getProjectFilePath } from './project.js';
+import {
+	CLOSE_CODE_UNSUPPORTED_VERSION,
+	type Capability,
+	type ChoiceRequest,
+	type ClientMessage,
+	type ErrorCode,
+	type FeedbackResult,
+	type FormRequest,
+	type HelloMessage,
+	PROTOCOL_VERSION,
+	ProtocolError,
+	type ServerMessage,
+	parseClientMessage,
+	serializeMessage,
+} from './protocol.js';
 
-function getProjectDirectory(): string {
-	if (process.env.MCP_PROJECT_DIR) {
-		return process.env.MCP_PROJECT_DIR;
-	}
-	return process.cwd();
+function getPortFilePath(): string {
+	return getProjectFilePath('.mcp-feedback-port');
 }
 
-function getPortFilePath(): string {
-	return join(getProjectDirectory(), '.mcp-feedback-port');
+function getTokenFilePath(): string {
+	return getProjectFilePath('.mcp-feedback-token');
+}
+
+/**
+ * Socket used when Unix socket transport is enabled without an explicit path.
+ * Prefers $XDG_RUNTIME_DIR, which is private to the user, and falls back to the project directory.
+ */
+export function getDefaultSocketPath(): string {
+	const projectDir = getProjectDirectory();
+	if (process.env.XDG_RUNTIME_DIR) {
+		const hash = createHash('sha256').update(projectDir).digest('hex').slice(0, 12);
+		return join(process.env.XDG_RUNTIME_DIR, `mcp-feedback-${hash}.sock`);
+	}
+	return join(projectDir, '.mcp-feedback.sock');
 }
 
+export type {
+	ChoiceOption,
+	ChoiceRequest,
+	ChoiceResult,
+	FeedbackResult,
+	ImageData,
+} from './protocol.js';
+
 export interface FeedbackOptions {
 	port?: number;
 	summary: string;
 	timeout?: number;
+	choice?: ChoiceRequest;
+	form?: FormRequest;
+	// Called periodically while waiting, and whenever the user is typing an answer
+	onProgress?: (progress: FeedbackProgress) => void;
+	// Aborted when the agent or host cancels the tool call waiting for this request
+	signal?: AbortSignal;
 }
 
-export interface ImageData {
-	name: string;
-	data: string;
+export interface FeedbackProgress {
+	elapsedMs: number;
+	connectedClients: number;
+	// True when the report was triggered by the user typing in a terminal
+	typing: boolean;
 }
 
-export interface FeedbackResult {
-	interactive_feedback: string;
-	images?: ImageData[];
+export interface ListenOptions {
+	// TCP interface to bind, loopback unless configured otherwise
+	host?: string;
+	// Listen on this Unix domain socket instead of a TCP port
+	socketPath?: string;
+}
+
+export const DEFAULT_HOST = '127.0.0.1';
+
+export type FeedbackTicket =
+	| { status: 'pending'; deadline: number; result: Promise<FeedbackResult> }
+	| { status: 'answered'; result: FeedbackResult }
+	| { status: 'failed'; error: Error };
+
+export class FeedbackTimeoutError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = 'FeedbackTimeoutError';
+	}
+}
+
+export class FeedbackCancelledError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = 'FeedbackCancelledError';
+	}
 }
 
+interface PendingRequest {
+	id: string;
+	summary: string;
+	choice?: ChoiceRequest;
+	form?: FormRequest;
+	requestedAt: number;
+	deadline: number;
+	// Whether the summary reached at least one client
+	delivered: boolean;
+	resolve: (result: FeedbackResult) => void;
+	reject: (error: Error) => void;
+	timeoutId: NodeJS.Timeout;
+	onProgress?: (progress: FeedbackProgress) => void;
+	progressTimer?: NodeJS.Timeout;
+	detachSignal?: () => void;
+}
+
+const SERVER_INFO = { name: 'mcp-feedback-server', version: '1.4.0' };
+const SERVER_CAPABILITIES: Capability[] = [
+	'choice',
+	'form',
+	'activity',
+	'attachments',
+	'queue',
+	'ack',
+];
+
+// How often a waiting request reports progress to the MCP host
+const PROGRESS_INTERVAL_MS = 10000;
+
+// How long a finished ticket waits for its poll_feedback call
+const TICKET_RETENTION_MS = 60 * 60 * 1000;
+
+// Clients that do not say hello within this time are assumed to be outdated and disconnected
+const HANDSHAKE_TIMEOUT_MS = 10000;
+
 let globalWss: WebSocketServer | null = null;
 let globalHttpServer: HttpServer | null = null;
 let isServerRunning = false;
-
-function savePortInfo(port: number): void {
+let sessionToken: string | null = null;
+let listeningSocketPath: string | null = null;
+const pendingRequests = new Map<string, PendingRequest>();
+// Requests started through requestFeedback, kept until their result is polled
+const tickets = new Map<string, FeedbackTicket>();
+// Clients that completed the handshake, with what they told us about themselves
+const handshakes = new WeakMap<WebSocket, HelloMessage>();
+// A reply written before the agent asked, handed to the next plain feedback request
+let queuedFeedback: FeedbackResult | null = null;
+
+// Submissions already applied, so one resent after a lost ack is confirmed again instead of applied twice
+const acknowledgedSubmissions = new Set<string>();
+
+// How much of a queued reply terminals show
+const QUEUE_PREVIEW_LENGTH = 80;
+
+// How many applied submission ids are remembered
+const MAX_ACKNOWLEDGED_SUBMISSIONS = 200;
+
+// The port file holds whatever the terminal should connect to: a bare port for the
+// default loopback listener, otherwise a full ws:// URL or the Unix socket path
+function savePortInfo(address: string | number): void {
 	const portFile = getPortFilePath();
 	const projectDir = getProjectDirectory();
 
 	try {
-		writeFileSync(portFile, port.toString(), 'utf8');
-		process.env.MCP_FEEDBACK_PORT = port.toString();
-		console.error(`[FeedbackServer] Port info saved to ${portFile}: ${port}`);
+		writeFileSync(portFile, address.toString(), 'utf8');
+		if (typeof address === 'number') {
+			process.env.MCP_FEEDBACK_PORT = address.toString();
+		}
+		console.error(`[FeedbackServer] Port info saved to ${portFile}: ${address}`);
 		console.error(`[FeedbackServer] Project: ${projectDir}`);
 	} catch (error) {
 		console.error('[FeedbackServer] Failed to save port info:', error);
 	}
 }
 
+function saveTokenInfo(token: string): void {
+	const tokenFile = getTokenFilePath();
+
+	try {
+		writeFileSync(tokenFile, token, { encoding: 'utf8', mode: 0o600 });
+		// mode only applies when the file is created, tighten an existing file as well
+		chmodSync(tokenFile, 0o600);
+		console.error(`[FeedbackServer] Session token saved to ${tokenFile}`);
+	} catch (error) {
+		console.error('[FeedbackServer] Failed to save session token:', error);
+	}
+}
+
+function clearTokenInfo(): void {
+	const tokenFile = getTokenFilePath();
+	try {
+		if (existsSync(tokenFile)) {
+			unlinkSync(tokenFile);
+			console.error(`[FeedbackServer] Cleared token file: ${tokenFile}`);
+		}
+	} catch (error) {
+		console.error('[FeedbackServer] Failed to clear token file:', error);
+	}
+}
+
+function isAuthorized(request: IncomingMessage): boolean {
+	if (!sessionToken) return false;
+
+	const header = request.headers.authorization ?? '';
+	const match = header.match(/^Bearer\s+(\S+)$/i);
+	if (!match?.[1]) return false;
+
+	const presented = Buffer.from(match[1]);
+	const expected = Buffer.from(sessionToken);
+	return presented.length === expected.length && timingSafeEqual(presented, expected);
+}
+
 export function getServerPort(): number | null {
 	const portFile = getPortFilePath();
 	try {
@@ -87,11 +252,11 @@ function clearPortInfo(): void {
 	}
 }
 
-async function isPortInUse(port: number): Promise<boolean> {
+async function isPortInUse(port: number, host: string): Promise<boolean> {
 	return new Promise(resolve => {
 		const server = createServer();
 
-		server.listen(port, () => {
+		server.listen(port, host, () => {
 			server.close(() => {
 				resolve(false);
 			});
@@ -103,10 +268,10 @@ async function isPortInUse(port: number): Promise<boolean> {
 	});
 }
 
-async function findAvailablePort(startPort: number): Promise<number> {
+async function findAvailablePort(startPort: number, host: string): Promise<number> {
 	let port = startPort;
 	while (port < startPort + 100) {
-		if (!(await isPortInUse(port))) {
+		if (!(await isPortInUse(port, host))) {
 			return port;
 		}
 		port++;
@@ -114,28 +279,101 @@ async function findAvailablePort(startPort: number): Promise<number> {
 	throw new Error(`No available port found in range ${startPort}-${startPort + 99}`);
 }
 
-export async function startFeedbackServer(port = 9543): Promise<void> {
+// Resolves true when another process answers on the socket, false when it is missing or stale
+async function isSocketInUse(socketPath: string): Promise<boolean> {
+	if (!existsSync(socketPath)) {
+		return false;
+	}
+
+	return new Promise(resolve => {
+		const socket = connect(socketPath);
+		socket.once('connect', () => {
+			socket.destroy();
+			resolve(true);
+		});
+		socket.once('error', () => {
+			resolve(false);
+		});
+	});
+}
+
+function clearSocketFile(socketPath: string): void {
+	try {
+		if (existsSync(socketPath)) {
+			unlinkSync(socketPath);
+		}
+	} catch (error) {
+		console.error('[FeedbackServer] Failed to remove socket file:', error);
+	}
+}
+
+// Wildcard binds are reachable on loopback, so that is what the terminal is told to use
+function getConnectUrl(host: string, port: number): string {
+	const connectHost = host === '0.0.0.0' || host === '::' ? '127.0.0.1' : host;
+	return `ws://${connectHost.includes(':') ? `[${connectHost}]` : connectHost}:${port}`;
+}
+
+export async function startFeedbackServer(port = 9543, options: ListenOptions = {}): Promise<void> {
 	if (isServerRunning) {
 		console.error('[FeedbackServer] Server is already running.');
 		return;
 	}
 
+	const host = options.host || DEFAULT_HOST;
+	const socketPath = options.socketPath
+		? resolvePath(getProjectDirectory(), options.socketPath)
+		: null;
 	let finalPort = port;
 
-	if (await isPortInUse(port)) {
+	if (socketPath) {
+		if (await isSocketInUse(socketPath)) {
+			throw new Error(`Socket ${socketPath} is already in use by another feedback server.`);
+		}
+		// Left behind by a server that did not shut down cleanly
+		clearSocketFile(socketPath);
+	} else if (await isPortInUse(port, host)) {
 		console.error(`[FeedbackServer] Port ${port} is occupied. Looking for available port...`);
-		finalPort = await findAvailablePort(port);
+		finalPort = await findAvailablePort(port, host);
 		console.error(`[FeedbackServer] Using available port: ${finalPort}`);
 	}
 
+	// A fresh secret per server run: only processes that can read the token file may connect
+	sessionToken = randomBytes(32).toString('hex');
+	saveTokenInfo(sessionToken);
+
 	return new Promise((resolve, reject) => {
 		globalHttpServer = createServer();
-		globalWss = new WebSocketServer({ server: globalHttpServer });
+		globalWss = new WebSocketServer({
+			server: globalHttpServer,
+			verifyClient: (info, callback) => {
+				if (isAuthorized(info.req)) {
+					callback(true);
+					return;
+				}
+				console.error('[FeedbackServer] Rejected connection with a missing or invalid token.');
+				callback(false, 401, 'Unauthorized');
+			},
+		});
 
 		globalWss.on('connection', (ws: WebSocket) => {
-			console.error('[FeedbackServer] Client connected.');
+			console.error('[FeedbackServer] Client connected, waiting for handshake...');
+
+			const handshakeTimeout = setTimeout(() => {
+				if (!handshakes.has(ws)) {
+					console.error('[FeedbackServer] Client did not complete the handshake in time.');
+					ws.close(
+						CLOSE_CODE_UNSUPPORTED_VERSION,
+						`Protocol v${PROTOCOL_VERSION} handshake required, please upgrade mcp-feedback-terminal`
+					);
+				}
+			}, HANDSHAKE_TIMEOUT_MS);
+
+			ws.on('message', (message: Buffer) => {
+				handleClientMessage(ws, message);
+			});
 
 			ws.on('close', () => {
+				clearTimeout(handshakeTimeout);
 				console.error('[FeedbackServer] Client disconnected.');
 			});
 
@@ -144,35 +382,61 @@ export async function startFeedbackServer(port = 9543): Promise<void> {
 			});
 		});
 
-		globalHttpServer.listen(finalPort, () => {
+		const onListening = () => {
 			isServerRunning = true;
-			savePortInfo(finalPort);
+
+			let listeningOn: string;
+			if (socketPath) {
+				listeningSocketPath = socketPath;
+				// Same rule as the token file: only the current user may connect
+				chmodSync(socketPath, 0o600);
+				savePortInfo(socketPath);
+				listeningOn = `unix:${socketPath}`;
+			} else {
+				listeningOn = getConnectUrl(host, finalPort);
+				savePortInfo(host === DEFAULT_HOST ? finalPort : listeningOn);
+			}
+
 			console.error(`
       ===============================================================
       [FeedbackServer] WebSocket server started
-      Server is listening on: ws://localhost:${finalPort}
+      Server is listening on: ${listeningOn}
       Project Directory: ${getProjectDirectory()}
       Port file: ${getPortFilePath()}
+      Token file: ${getTokenFilePath()}
       
       Multiple Cursor instances supported - each project uses its own port.
       
-      Please connect using a WebSocket client and send your feedback
-      in the following JSON format:
+      Please connect using mcp-feedback-terminal (protocol v${PROTOCOL_VERSION}).
+      Connections must send "Authorization: Bearer <token>" using the
+      token from the token file.
+      Clients must send a "hello" message first, then answer each
+      "prompt" message with a "feedback" message:
       {
-        "interactive_feedback": "Your feedback message here...",
-        "images": [
-          {
-            "name": "filename1.png",
-            "data": "base64_encoded_string_of_image_1"
-          }
-        ]
+        "type": "feedback",
+        "requestId": "id from the prompt message",
+        "result": {
+          "interactive_feedback": "Your feedback message here...",
+          "images": [
+            {
+              "name": "filename1.png",
+              "data": "base64_encoded_string_of_image_1"
+            }
+          ]
+        }
       }
       The 'images' array is optional.
       Ready to receive feedback requests...
       ===============================================================
       `);
 			resolve();
-		});
+		};
+
+		if (socketPath) {
+			globalHttpServer.listen(socketPath, onListening);
+		} else {
+			globalHttpServer.listen(finalPort, host, onListening);
+		}
 
 		globalHttpServer.on('error', err => {
 			console.error('[FeedbackServer] Server error:', err);
@@ -188,6 +452,14 @@ export function stopFeedbackServer(): void {
 
 	console.error('[FeedbackServer] Shutting down server...');
 
+	for (const request of pendingRequests.values()) {
+		disposeRequest(request);
+		recordHistory(request, 'cancelled');
+		request.reject(new Error('Feedback server is shutting down.'));
+	}
+	pendingRequests.clear();
+	queuedFeedback = null;
+
 	if (globalWss) {
 		for (const client of globalWss.clients) {
 			client.close();
@@ -201,98 +473,537 @@ export function stopFeedbackServer(): void {
 		globalHttpServer = null;
 	}
 
+	if (listeningSocketPath) {
+		// The process usually exits right after this, before close() gets to unlink the socket
+		clearSocketFile(listeningSocketPath);
+		listeningSocketPath = null;
+	}
+
 	clearPortInfo();
+	clearTokenInfo();
+	sessionToken = null;
 	isServerRunning = false;
 }
 
+function send(ws: WebSocket, message: ServerMessage): void {
+	if (ws.readyState === WebSocket.OPEN) {
+		ws.send(serializeMessage(message));
+	}
+}
+
+function sendError(ws: WebSocket, code: ErrorCode, message: string, requestId?: string): void {
+	send(ws, { type: 'error', code, message, requestId });
+}
+
+// Choices and forms need an answer to their own question, a queued reply only answers plain requests
+function isPlainRequest(request: Pick<PendingRequest, 'choice' | 'form'>): boolean {
+	return !request.choice && !request.form;
+}
+
+function acknowledge(ws: WebSocket, submissionId: string | undefined): void {
+	if (!submissionId) return;
+
+	acknowledgedSubmissions.add(submissionId);
+	if (acknowledgedSubmissions.size > MAX_ACKNOWLEDGED_SUBMISSIONS) {
+		// Sets iterate in insertion order, the first one is the oldest
+		const [oldest] = acknowledgedSubmissions;
+		if (oldest) acknowledgedSubmissions.delete(oldest);
+	}
+	send(ws, { type: 'ack', submissionId });
+}
+
+// Clients that sent a submissionId are told which submission failed, older clients get the plain error
+function rejectSubmission(
+	ws: WebSocket,
+	submissionId: string | undefined,
+	code: ErrorCode,
+	message: string,
+	requestId?: string
+): void {
+	if (submissionId) {
+		send(ws, { type: 'rejected', submissionId, code, message });
+	} else {
+		sendError(ws, code, message, requestId);
+	}
+}
+
+// Best effort for frames that failed validation, whatever else is wrong with them
+function findSubmissionId(raw: string): string | undefined {
+	try {
+		const frame: unknown = JSON.parse(raw);
+		if (typeof frame === 'object' && frame !== null && 'submissionId' in frame) {
+			return typeof frame.submissionId === 'string' ? frame.submissionId : undefined;
+		}
+	} catch {
+		// Not JSON, there is no id to answer
+	}
+	return undefined;
+}
+
+function canHandle(client: HelloMessage, request: PendingRequest): boolean {
+	if (request.choice && !client.capabilities.includes('choice')) return false;
+	if (request.form && !client.capabilities.includes('form')) return false;
+	return true;
+}
+
+function sendPrompt(ws: WebSocket, request: PendingRequest): void {
+	const client = handshakes.get(ws);
+	if (!client) return;
+
+	if (!canHandle(client, request)) {
+		console.error(
+			`[FeedbackServer] Client ${client.client.name} ${client.client.version} cannot render request ${request.id}, skipping.`
+		);
+		return;
+	}
+
+	send(ws, {
+		type: 'prompt',
+		requestId: request.id,
+		summary: request.summary,
+		deadline: request.deadline,
+		choice: request.choice,
+		form: request.form,
+	});
+	request.delivered = true;
+}
+
+function handleClientMessage(ws: WebSocket, data: Buffer): void {
+	const raw = data.toString();
+	let message: ClientMessage;
+	try {
+		message = parseClientMessage(raw);
+	} catch (error) {
+		const reason = error instanceof ProtocolError ? error.message : String(error);
+		console.error(`[FeedbackServer] Invalid message from client: ${reason}`);
+		// Otherwise the client would resend the same invalid submission after every reconnect
+		rejectSubmission(ws, findSubmissionId(raw), 'invalid_message', reason);
+		return;
+	}
+
+	if (message.type === 'hello') {
+		handleHello(ws, message);
+		return;
+	}
+
+	if (!handshakes.has(ws)) {
+		sendError(ws, 'handshake_required', 'Send a "hello" message before anything else.');
+		return;
+	}
+
+	if (message.type === 'activity') {
+		handleActivity(message.requestId);
+		return;
+	}
+
+	if (message.type === 'unqueue') {
+		handleUnqueue();
+		return;
+	}
+
+	const { submissionId } = message;
+	if (submissionId && acknowledgedSubmissions.has(submissionId)) {
+		console.error(`[FeedbackServer] Submission ${submissionId} was resent, confirming it again.`);
+		send(ws, { type: 'ack', submissionId });
+		return;
+	}
+
+	if (message.type === 'queue') {
+		handleQueue(ws, message.result, submissionId);
+		return;
+	}
+
+	handleFeedback(ws, message.requestId, message.result, submissionId);
+}
+
+function handleHello(ws: WebSocket, hello: HelloMessage): void {
+	const { name, version } = hello.client;
+
+	if (hello.protocolVersion !== PROTOCOL_VERSION) {
+		const upgrade =
+			hello.protocolVersion < PROTOCOL_VERSION ? 'mcp-feedback-terminal' : 'mcp-feedback-server';
+		const reason = `Protocol version mismatch: client ${name} ${version} speaks v${hello.protocolVersion}, server speaks v${PROTOCOL_VERSION}. Please upgrade ${upgrade}.`;
+		console.error(`[FeedbackServer] ${reason}`);
+		sendError(ws, 'unsupported_version', reason);
+		ws.close(CLOSE_CODE_UNSUPPORTED_VERSION, `Please upgrade ${upgrade}`);
+		return;
+	}
+
+	handshakes.set(ws, hello);
+	console.error(
+		`[FeedbackServer] Handshake completed with ${name} ${version} (capabilities: ${hello.capabilities.join(', ') || 'none'}).`
+	);
+
+	send(ws, {
+		type: 'welcome',
+		protocolVersion: PROTOCOL_VERSION,
+		server: SERVER_INFO,
+		capabilities: SERVER_CAPABILITIES,
+	});
+
+	// The pending requests and the queued reply are state: every client that connects, whenever
+	// and in whatever order, gets all of it and can answer right away
+	if (hello.capabilities.includes('queue')) {
+		send(ws, { type: 'queued', preview: queuedFeedback ? getQueuePreview(queuedFeedback) : null });
+	}
+
+	if (hello.capabilities.includes('sync')) {
+		const requestIds = Array.from(pendingRequests.values())
+			.filter(request => canHandle(hello, request))
+			.map(request => request.id);
+		send(ws, { type: 'sync', requestIds });
+	}
+
+	if (pendingRequests.size > 0) {
+		console.error(
+			`[FeedbackServer] Sending ${pendingRequests.size} pending request(s) to new client...`
+		);
+		for (const request of pendingRequests.values()) {
+			sendPrompt(ws, request);
+		}
+	}
+}
+
+function handleFeedback(
+	ws: WebSocket,
+	requestId: string,
+	result: FeedbackResult,
+	submissionId?: string
+): void {
+	const request = pendingRequests.get(requestId);
+	if (!request) {
+		console.error(`[FeedbackServer] Feedback for unknown request ${requestId} ignored.`);
+		rejectSubmission(
+			ws,
+			submissionId,
+			'unknown_request',
+			'This request is no longer pending (answered, timed out or unknown).',
+			requestId
+		);
+		return;
+	}
+
+	const validation = validateResult(result);
+	if (!validation.ok) {
+		console.error(
+			`[FeedbackServer] Rejected feedback for request ${requestId}: ${validation.error}`
+		);
+		// The request stays open: hand the prompt back so the user can fix the reply and resend
+		sendPrompt(ws, request);
+		rejectSubmission(ws, submissionId, validation.code, validation.error, requestId);
+		return;
+	}
+
+	console.error(`[FeedbackServer] Feedback received for request ${requestId}.`);
+	answerRequest(request, validation.result);
+	acknowledge(ws, submissionId);
+}
+
+function validateResult(
+	result: FeedbackResult
+): { ok: true; result: FeedbackResult } | { ok: false; code: ErrorCode; error: string } {
+	if (result.attachments?.length) {
+		const attachments = validateAttachments(result.attachments);
+		if (!attachments.ok) {
+			return { ok: false, code: 'invalid_attachment', error: attachments.error };
+		}
+	}
+
+	if (!result.images?.length) {
+		return { ok: true, result };
+	}
+
+	const validation = validateImages(result.images, getImageLimits());
+	if (!validation.ok) {
+		return { ok: false, code: 'invalid_image', error: validation.error };
+	}
+	return { ok: true, result: { ...result, images: validation.images } };
+}
+
+function answerRequest(request: PendingRequest, result: FeedbackResult): void {
+	pendingRequests.delete(request.id);
+	disposeRequest(request);
+
+	// Let every other client drop the prompt from its list
+	broadcast({ type: 'answered', requestId: request.id });
+
+	recordHistory(request, 'answered', result);
+	request.resolve(result);
+}
+
+function handleQueue(ws: WebSocket, result: FeedbackResult, submissionId?: string): void {
+	const validation = validateResult(result);
+	if (!validation.ok) {
+		console.error(`[FeedbackServer] Rejected queued reply: ${validation.error}`);
+		rejectSubmission(ws, submissionId, validation.code, validation.error);
+		return;
+	}
+
+	// The agent may have asked while the reply was on its way
+	const waiting = Array.from(pendingRequests.values()).find(isPlainRequest);
+	if (waiting) {
+		console.error(`[FeedbackServer] Queued reply answers waiting request ${waiting.id}.`);
+		answerRequest(waiting, validation.result);
+		acknowledge(ws, submissionId);
+		broadcastQueueState(waiting.id);
+		return;
+	}
+
+	console.error('[FeedbackServer] Reply queued for the next feedback request.');
+	queuedFeedback = validation.result;
+	acknowledge(ws, submissionId);
+	broadcastQueueState();
+}
+
+function handleUnqueue(): void {
+	if (!queuedFeedback) return;
+
+	console.error('[FeedbackServer] Queued reply withdrawn.');
+	queuedFeedback = null;
+	broadcastQueueState();
+}
+
+function getQueuePreview(result: FeedbackResult): string {
+	const firstLine = result.interactive_feedback.trim().split('\n')[0] ?? '';
+	if (firstLine) {
+		return firstLine.length > QUEUE_PREVIEW_LENGTH
+			? `${firstLine.slice(0, QUEUE_PREVIEW_LENGTH)}…`
+			: firstLine;
+	}
+	return `${result.images?.length ?? 0} image(s)`;
+}
+
+// Only clients that advertised 'queue' know the "queued" message
+function broadcastQueueState(deliveredTo?: string): void {
+	const preview = queuedFeedback ? getQueuePreview(queuedFeedback) : null;
+	for (const client of getConnectedClients()) {
+		if (handshakes.get(client)?.capabilities.includes('queue')) {
+			send(client, { type: 'queued', preview, deliveredTo });
+		}
+	}
+}
+
+// Typing in a terminal is passed on right away so the host sees a human is busy answering
+function handleActivity(requestId: string): void {
+	const request = pendingRequests.get(requestId);
+	if (request) {
+		reportProgress(request, true);
+	}
+}
+
+function reportProgress(request: PendingRequest, typing: boolean): void {
+	if (!request.onProgress) return;
+
+	try {
+		request.onProgress({
+			elapsedMs: Date.now() - request.requestedAt,
+			connectedClients: getConnectedClients().length,
+			typing,
+		});
+	} catch (error) {
+		console.error('[FeedbackServer] Progress callback failed:', error);
+	}
+}
+
+// Stops everything that could still settle a request once it has been settled
+function disposeRequest(request: PendingRequest): void {
+	clearTimeout(request.timeoutId);
+	clearInterval(request.progressTimer);
+	request.detachSignal?.();
+}
+
+function cancelRequest(request: PendingRequest): void {
+	if (!pendingRequests.delete(request.id)) return;
+	disposeRequest(request);
+
+	console.error(`[FeedbackServer] Request ${request.id} was cancelled by the agent.`);
+	// Older terminals do not know "cancelled", a timeout makes them drop the prompt all the same
+	for (const client of getConnectedClients()) {
+		const hello = handshakes.get(client);
+		send(
+			client,
+			hello?.capabilities.includes('cancel')
+				? { type: 'cancelled', requestId: request.id }
+				: { type: 'timeout', requestId: request.id }
+		);
+	}
+
+	recordHistory(request, 'cancelled');
+	request.reject(new FeedbackCancelledError('Feedback request was cancelled by the agent.'));
+}
+
+function recordHistory(
+	request: PendingRequest,
+	outcome: HistoryOutcome,
+	result?: FeedbackResult
+): void {
+	const kind = request.choice ? 'choice' : request.form ? 'form' : 'feedback';
+	appendHistoryRecord(
+		createHistoryRecord(
+			{ requestId: request.id, kind, summary: request.summary, requestedAt: request.requestedAt },
+			outcome,
+			result
+		)
+	);
+}
+
+function getConnectedClients(): WebSocket[] {
+	if (!globalWss) return [];
+
+	return Array.from(globalWss.clients).filter(
+		client => client.readyState === WebSocket.OPEN && handshakes.has(client)
+	);
+}
+
+function broadcast(message: ServerMessage): void {
+	for (const client of getConnectedClients()) {
+		send(client, message);
+	}
+}
+
 export function getInteractiveFeedback(options: FeedbackOptions): Promise<FeedbackResult> {
-	const { summary, timeout = 600000 } = options;
+	return publishRequest(options).result;
+}
 
-	return new Promise((resolve, reject) => {
+/**
+ * Starts a feedback request without waiting for it, for hosts whose tool calls time out
+ * before the user answers. The returned ticket id is the request id; poll it with pollFeedback.
+ */
+export function requestFeedback(options: FeedbackOptions): { id: string; deadline: number } {
+	if (!isServerRunning || !globalWss) {
+		throw new Error('Feedback server is not running. Please start the server first.');
+	}
+
+	const { id, deadline, result } = publishRequest(options);
+	tickets.set(id, { status: 'pending', deadline, result });
+
+	const settle = (finished: FeedbackTicket) => {
+		tickets.set(id, finished);
+		// Forget results nobody comes back for
+		setTimeout(() => tickets.delete(id), TICKET_RETENTION_MS).unref();
+	};
+	result.then(
+		value => settle({ status: 'answered', result: value }),
+		error =>
+			settle({ status: 'failed', error: error instanceof Error ? error : new Error(String(error)) })
+	);
+
+	return { id, deadline };
+}
+
+/**
+ * Returns the state of a ticket created by requestFeedback, or undefined for unknown or
+ * expired tickets. A finished ticket is handed out once and then forgotten.
+ */
+export function pollFeedback(id: string): FeedbackTicket | undefined {
+	const ticket = tickets.get(id);
+	if (ticket && ticket.status !== 'pending') {
+		tickets.delete(id);
+	}
+	return ticket;
+}
+
+function publishRequest(options: FeedbackOptions): {
+	id: string;
+	deadline: number;
+	result: Promise<FeedbackResult>;
+} {
+	const { summary, timeout = 600000, choice, form } = options;
+	const id = randomUUID();
+	// Absolute deadline so clients can show a countdown regardless of when they connect
+	const deadline = Date.now() + timeout;
+
+	const result = new Promise<FeedbackResult>((resolve, reject) => {
 		if (!isServerRunning || !globalWss) {
 			reject(new Error('Feedback server is not running. Please start the server first.'));
 			return;
 		}
 
-		const timeoutId: NodeJS.Timeout = setTimeout(() => {
-			if (!feedbackReceived) {
+		const request: PendingRequest = {
+			id,
+			summary,
+			choice,
+			form,
+			requestedAt: Date.now(),
+			deadline,
+			delivered: false,
+			resolve,
+			reject,
+			timeoutId: setTimeout(() => {
+				if (!pendingRequests.delete(id)) return;
+				disposeRequest(request);
+
 				console.error(
-					`[FeedbackServer] Timeout: No feedback received within ${timeout / 1000} seconds.`
+					`[FeedbackServer] Timeout: No feedback received for request ${id} within ${timeout / 1000} seconds.`
 				);
-				cleanup();
-
-				if (!clientConnected) {
-					reject(new Error('Feedback timed out: No client connected within the timeout period.'));
+				broadcast({ type: 'timeout', requestId: id });
+				recordHistory(request, 'timed_out');
+
+				if (!request.delivered) {
+					reject(
+						new FeedbackTimeoutError(
+							'Feedback timed out: No client connected within the timeout period.'
+						)
+					);
 				} else {
-					reject(new Error('Feedback timed out: Client connected but no feedback received.'));
+					reject(
+						new FeedbackTimeoutError(
+							'Feedback timed out: Client connected but no feedback received.'
+						)
+					);
 				}
-			}
-		}, timeout);
-
-		let feedbackReceived = false;
-		let clientConnected = false;
-
-		const handleMessage = (ws: WebSocket, message: Buffer) => {
-			if (feedbackReceived) return;
-
-			try {
-				const feedback: FeedbackResult = JSON.parse(message.toString());
-				console.error('[FeedbackServer] Feedback received.');
-				feedbackReceived = true;
-				clearTimeout(timeoutId);
-
-				cleanup();
-
-				resolve(feedback);
-			} catch {
-				console.error('[FeedbackServer] Error parsing feedback.');
-				ws.send(JSON.stringify({ type: 'error', message: 'Invalid JSON format.' }));
-			}
+			}, timeout),
 		};
 
-		const messageHandler = (message: Buffer) => {
-			const ws = Array.from(globalWss!.clients).find(
-				client => client.readyState === WebSocket.OPEN
+		if (options.onProgress) {
+			request.onProgress = options.onProgress;
+			request.progressTimer = setInterval(
+				() => reportProgress(request, false),
+				PROGRESS_INTERVAL_MS
 			);
-			if (ws) {
-				handleMessage(ws, message);
-			}
-		};
-
-		const connectionHandler = (ws: WebSocket) => {
-			console.error('[FeedbackServer] New client connected during feedback wait.');
-			clientConnected = true;
+		}
 
-			ws.send(JSON.stringify({ type: 'summary', data: summary }));
+		if (options.signal) {
+			const { signal } = options;
+			if (signal.aborted) {
+				disposeRequest(request);
+				reject(new FeedbackCancelledError('Feedback request was cancelled by the agent.'));
+				return;
+			}
+			const onAbort = () => cancelRequest(request);
+			signal.addEventListener('abort', onAbort, { once: true });
+			request.detachSignal = () => signal.removeEventListener('abort', onAbort);
+		}
 
-			ws.on('message', messageHandler);
-		};
+		if (queuedFeedback && isPlainRequest(request)) {
+			const queued = queuedFeedback;
+			queuedFeedback = null;
+			disposeRequest(request);
 
-		const cleanup = () => {
-			globalWss!.removeListener('connection', connectionHandler);
+			console.error(`[FeedbackServer] Answering request ${id} with the queued reply.`);
+			broadcastQueueState(id);
+			recordHistory(request, 'answered', queued);
+			resolve(queued);
+			return;
+		}
 
-			for (const client of globalWss!.clients) {
-				client.removeListener('message', messageHandler);
-			}
-		};
+		pendingRequests.set(id, request);
 
-		const activeClients = Array.from(globalWss.clients).filter(
-			client => client.readyState === WebSocket.OPEN
-		);
+		const activeClients = getConnectedClients();
 
 		if (activeClients.length > 0) {
-			console.error('[FeedbackServer] Found active clients, sending summary...');
-			clientConnected = true;
-
+			console.error(`[FeedbackServer] Found active clients, sending prompt for request ${id}...`);
 			for (const client of activeClients) {
-				client.send(JSON.stringify({ type: 'summary', data: summary }));
-				client.on('message', messageHandler);
+				sendPrompt(client, request);
 			}
 		} else {
 			console.error('[FeedbackServer] No active clients found. Waiting for client connection...');
-			globalWss.on('connection', connectionHandler);
 		}
 
-		console.error('[FeedbackServer] Waiting for feedback...');
+		console.error(
+			`[FeedbackServer] Waiting for feedback... (${pendingRequests.size} pending request(s))`
+		);
 	});
+
+	return { id, deadline, result };
 }
@@ -0,0 +1,114 @@
+import type { FormField, FormValue } from './protocol.js';
+
+export interface FormValidation {
+	values: Record<string, FormValue>;
+	errors: Record<string, string>;
+}
+
+/**
+ * Checks that a field list sent by the agent is usable before it is shown to the user.
+ * Returns a description of the first problem found, or null when the fields are valid.
+ */
+export function checkFormFields(fields: FormField[]): string | null {
+	const names = new Set<string>();
+
+	for (const field of fields) {
+		if (names.has(field.name)) {
+			return `Duplicate field name "${field.name}".`;
+		}
+		names.add(field.name);
+
+		if (field.enum) {
+			if (field.type !== 'string') {
+				return `Field "${field.name}" has enum values but is not of type "string".`;
+			}
+			if (field.enum.length === 0) {
+				return `Field "${field.name}" has an empty enum.`;
+			}
+		}
+
+		if (field.pattern) {
+			try {
+				new RegExp(field.pattern);
+			} catch {
+				return `Field "${field.name}" has an invalid pattern.`;
+			}
+		}
+
+		if (field.default !== undefined) {
+			const error = validateValue(field, field.default);
+			if (error) {
+				return `Field "${field.name}" has an invalid default: ${error}`;
+			}
+		}
+	}
+
+	return null;
+}
+
+/**
+ * Validates the values returned by the terminal against the field list.
+ * The client validates too, but its answers are never trusted blindly.
+ */
+export function validateFormValues(
+	fields: FormField[],
+	rawValues: Record<string, unknown>
+): FormValidation {
+	const values: Record<string, FormValue> = {};
+	const errors: Record<string, string> = {};
+
+	for (const field of fields) {
+		const raw = rawValues[field.name];
+
+		if (raw === undefined || raw === null || raw === '') {
+			if (field.required) {
+				errors[field.name] = 'This field is required.';
+			}
+			continue;
+		}
+
+		const error = validateValue(field, raw);
+		if (error) {
+			errors[field.name] = error;
+		} else {
+			values[field.name] = raw as FormValue;
+		}
+	}
+
+	return { values, errors };
+}
+
+function validateValue(field: FormField, value: unknown): string | null {
+	switch (field.type) {
+		case 'boolean':
+			return typeof value === 'boolean' ? null : 'Expected true or false.';
+		case 'number':
+		case 'integer': {
+			if (typeof value !== 'number' || !Number.isFinite(value)) {
+				return 'Expected a number.';
+			}
+			if (field.type === 'integer' && !Number.isInteger(value)) {
+				return 'Expected a whole number.';
+			}
+			if (field.minimum !== undefined && value < field.minimum) {
+				return `Must be at least ${field.minimum}.`;
+			}
+			if (field.maximum !== undefined && value > field.maximum) {
+				return `Must be at most ${field.maximum}.`;
+			}
+			return null;
+		}
+		case 'string': {
+			if (typeof value !== 'string') {
+				return 'Expected text.';
+			}
+			if (field.enum && !field.enum.includes(value)) {
+				return `Must be one of: ${field.enum.join(', ')}.`;
+			}
+			if (field.pattern && !new RegExp(field.pattern).test(value)) {
+				return `Must match the pattern ${field.pattern}.`;
+			}
+			return null;
+		}
+	}
+}
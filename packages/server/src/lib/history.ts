@@ -0,0 +1,145 @@
+import { createHash } from 'node:crypto';
+import { appendFileSync, existsSync, readFileSync } from 'node:fs';
+import { getProjectFilePath } from './project.js';
+import type {
+	AttachmentData,
+	ChoiceResult,
+	FeedbackResult,
+	FormResult,
+	ImageData,
+} from './protocol.js';
+
+export type HistoryOutcome = 'answered' | 'timed_out' | 'cancelled';
+
+export type HistoryKind = 'feedback' | 'choice' | 'form';
+
+export interface HistoryImage {
+	name: string;
+	sha256: string;
+	bytes: number;
+}
+
+export interface HistoryAttachment extends HistoryImage {
+	mimeType: string;
+}
+
+/**
+ * One round of feedback as stored in the history file. Images and attached files are
+ * kept as names and hashes only, their content is never written to disk.
+ */
+export interface HistoryRecord {
+	requestId: string;
+	kind: HistoryKind;
+	summary: string;
+	outcome: HistoryOutcome;
+	requestedAt: string;
+	completedAt: string;
+	feedback?: string;
+	images?: HistoryImage[];
+	attachments?: HistoryAttachment[];
+	choice?: ChoiceResult;
+	form?: FormResult;
+}
+
+export interface HistoryEntry {
+	requestId: string;
+	kind: HistoryKind;
+	summary: string;
+	requestedAt: number;
+}
+
+export function getHistoryFilePath(): string {
+	return getProjectFilePath('.mcp-feedback-history.jsonl');
+}
+
+export function isHistoryEnabled(): boolean {
+	const value = process.env.MCP_FEEDBACK_HISTORY?.toLowerCase();
+	return value !== 'false' && value !== '0' && value !== 'off';
+}
+
+function describeImage(image: ImageData): HistoryImage {
+	const data = Buffer.from(image.data, 'base64');
+	return {
+		name: image.name,
+		sha256: createHash('sha256').update(data).digest('hex'),
+		bytes: data.length,
+	};
+}
+
+function describeAttachment(attachment: AttachmentData): HistoryAttachment {
+	const data = Buffer.from(attachment.content, 'utf8');
+	return {
+		name: attachment.name,
+		mimeType: attachment.mimeType,
+		sha256: createHash('sha256').update(data).digest('hex'),
+		bytes: data.length,
+	};
+}
+
+export function createHistoryRecord(
+	entry: HistoryEntry,
+	outcome: HistoryOutcome,
+	result?: FeedbackResult
+): HistoryRecord {
+	const record: HistoryRecord = {
+		requestId: entry.requestId,
+		kind: entry.kind,
+		summary: entry.summary,
+		outcome,
+		requestedAt: new Date(entry.requestedAt).toISOString(),
+		completedAt: new Date().toISOString(),
+	};
+
+	if (result) {
+		record.feedback = result.interactive_feedback;
+		if (result.images?.length) record.images = result.images.map(describeImage);
+		if (result.attachments?.length) {
+			record.attachments = result.attachments.map(describeAttachment);
+		}
+		if (result.choice) record.choice = result.choice;
+		if (result.form) record.form = result.form;
+	}
+
+	return record;
+}
+
+/**
+ * Appends a record to the history file. Failures are logged and swallowed:
+ * losing a history line must never fail the feedback call itself.
+ */
+export function appendHistoryRecord(record: HistoryRecord): void {
+	if (!isHistoryEnabled()) return;
+
+	const historyFile = getHistoryFilePath();
+	try {
+		// Replies can contain anything the user typed, keep them private like the token file
+		appendFileSync(historyFile, `${JSON.stringify(record)}\n`, { encoding: 'utf8', mode: 0o600 });
+	} catch (error) {
+		console.error('[History] Failed to append history record:', error);
+	}
+}
+
+/**
+ * Reads the history file, oldest first. Lines that cannot be parsed (for example
+ * a write cut short by a crash) are skipped.
+ */
+export function readHistory(limit?: number): HistoryRecord[] {
+	const historyFile = getHistoryFilePath();
+	if (!existsSync(historyFile)) return [];
+
+	const records: HistoryRecord[] = [];
+	for (const line of readFileSync(historyFile, 'utf8').split('\n')) {
+		if (!line.trim()) continue;
+		try {
+			records.push(JSON.parse(line) as HistoryRecord);
+		} catch {
+			console.error('[History] Skipping malformed history line.');
+		}
+	}
+
+	return limit !== undefined ? records.slice(-limit) : records;
+}
+
+export function findHistoryRecord(requestId: string): HistoryRecord | undefined {
+	return readHistory().find(record => record.requestId === requestId);
+}
@@ -0,0 +1,125 @@
+import type { ImageData } from './protocol.js';
+
+export interface ImageLimits {
+	maxImageBytes: number;
+	maxTotalBytes: number;
+}
+
+export type ImageValidation = { ok: true; images: ImageData[] } | { ok: false; error: string };
+
+const DEFAULT_MAX_IMAGE_MB = 5;
+const DEFAULT_MAX_TOTAL_MB = 20;
+
+const BASE64_PATTERN = /^[A-Za-z0-9+/]*={0,2}$/;
+
+// Limits come from MCP_FEEDBACK_MAX_IMAGE_MB and MCP_FEEDBACK_MAX_TOTAL_IMAGE_MB
+export function getImageLimits(): ImageLimits {
+	const maxImageMb = parseMegabytes('MCP_FEEDBACK_MAX_IMAGE_MB', DEFAULT_MAX_IMAGE_MB);
+	const maxTotalMb = parseMegabytes('MCP_FEEDBACK_MAX_TOTAL_IMAGE_MB', DEFAULT_MAX_TOTAL_MB);
+	return {
+		maxImageBytes: Math.floor(maxImageMb * 1024 * 1024),
+		maxTotalBytes: Math.floor(maxTotalMb * 1024 * 1024),
+	};
+}
+
+function parseMegabytes(name: string, fallback: number): number {
+	const value = process.env[name];
+	if (value === undefined || value.trim() === '') {
+		return fallback;
+	}
+
+	const megabytes = Number(value);
+	if (!Number.isFinite(megabytes) || megabytes <= 0) {
+		console.error(`[Images] Invalid ${name}: ${value}. Using ${fallback} MB.`);
+		return fallback;
+	}
+	return megabytes;
+}
+
+/**
+ * Identifies the image format from the first bytes of the file. The name sent by the
+ * client is never trusted for this. Returns null for anything that is not a supported image.
+ */
+export function detectImageType(data: Buffer): string | null {
+	const startsWith = (bytes: number[], offset = 0) =>
+		data.length >= offset + bytes.length && bytes.every((byte, i) => data[offset + i] === byte);
+
+	if (startsWith([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return 'image/png';
+	if (startsWith([0xff, 0xd8, 0xff])) return 'image/jpeg';
+	// GIF87a / GIF89a
+	if (
+		startsWith([0x47, 0x49, 0x46, 0x38]) &&
+		(data[4] === 0x37 || data[4] === 0x39) &&
+		data[5] === 0x61
+	) {
+		return 'image/gif';
+	}
+	// RIFF....WEBP
+	if (startsWith([0x52, 0x49, 0x46, 0x46]) && startsWith([0x57, 0x45, 0x42, 0x50], 8)) {
+		return 'image/webp';
+	}
+	if (startsWith([0x42, 0x4d]) && data.length >= 26) return 'image/bmp';
+
+	return null;
+}
+
+function decodeBase64(data: string): Buffer | null {
+	// Accept data URLs and line-wrapped base64, reject anything else Buffer.from would silently skip
+	const base64 = data.replace(/^data:[^;,]*;base64,/, '').replace(/\s+/g, '');
+	if (base64.length === 0 || base64.length % 4 !== 0 || !BASE64_PATTERN.test(base64)) {
+		return null;
+	}
+	return Buffer.from(base64, 'base64');
+}
+
+function formatSize(bytes: number): string {
+	if (bytes < 1024) return `${bytes} bytes`;
+	if (bytes < 1024 * 1024) return `${Math.ceil(bytes / 1024)} KB`;
+	return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * Checks every attached image before it is handed to the agent: the data must be valid
+ * base64 of a PNG, JPEG, GIF, WebP or BMP file, and stay within the size limits.
+ * Valid images come back with normalized data and the detected MIME type.
+ */
+export function validateImages(images: ImageData[], limits: ImageLimits): ImageValidation {
+	const validated: ImageData[] = [];
+	let totalBytes = 0;
+
+	for (const [index, image] of images.entries()) {
+		const label = `Image ${index + 1} (${image.name || 'unnamed'})`;
+
+		const data = decodeBase64(image.data);
+		if (!data) {
+			return { ok: false, error: `${label} is not valid base64 data.` };
+		}
+
+		const mimeType = detectImageType(data);
+		if (!mimeType) {
+			return {
+				ok: false,
+				error: `${label} is not a supported image. Use PNG, JPEG, GIF, WebP or BMP.`,
+			};
+		}
+
+		if (data.length > limits.maxImageBytes) {
+			return {
+				ok: false,
+				error: `${label} is ${formatSize(data.length)}, the limit per image is ${formatSize(limits.maxImageBytes)}.`,
+			};
+		}
+
+		totalBytes += data.length;
+		if (totalBytes > limits.maxTotalBytes) {
+			return {
+				ok: false,
+				error: `The images add up to more than ${formatSize(limits.maxTotalBytes)}. Remove some and try again.`,
+			};
+		}
+
+		validated.push({ name: image.name, data: data.toString('base64'), mimeType });
+	}
+
+	return { ok: true, images: validated };
+}
@@ -0,0 +1,13 @@
+import { join } from 'node:path';
+
+export function getProjectDirectory(): string {
+	if (process.env.MCP_PROJECT_DIR) {
+		return process.env.MCP_PROJECT_DIR;
+	}
+	return process.cwd();
+}
+
+// Files the server keeps next to the project, e.g. '.mcp-feedback-port'
+export function getProjectFilePath(name: string): string {
+	return join(getProjectDirectory(), name);
+}